@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useCallback } from 'react';
 import MainLayout from './components/layout/MainLayout';
 import Player from './components/player/Player';
 import ChannelList from './components/player/ChannelList';
@@ -7,7 +7,9 @@ import { Channel, PlayerState, PlayMode, EPGProgram } from './types/player';
 import { getLastChannelId, getSidebarVisible, saveSidebarVisible } from './lib/player-storage';
 import { useM3ULoader } from './hooks/use-m3u-loader';
 import { useEPGLoader } from './hooks/use-epg-loader';
-import { generateFallbackPrograms } from './lib/epg-parser';
+import { generateFallbackPrograms, getEPGChannelId } from './lib/epg-parser';
+import { getGuideChannelIds } from './lib/epg-loader';
+import { getChannelNumber } from './lib/channel-search';
 import { usePlayerTranslation } from './hooks/use-player-translation';
 
 // 默认M3U地址（可替换为自定义地址，Cloudflare部署时支持环境变量）
@@ -29,25 +31,38 @@ const App = () => {
   const [currentPlayingProgram, setCurrentPlayingProgram] = useState<EPGProgram | null>(null);
   
   // 加载M3U和EPG
-  const { channels, groups, isLoading: isM3ULoading } = useM3ULoader(DEFAULT_M3U_URL);
-  const { epgData, isLoading: isEPGLoading } = useEPGLoader(DEFAULT_EPG_URL);
+  const { channels, groups, header, isLoading: isM3ULoading } = useM3ULoader(DEFAULT_M3U_URL);
+  // 节目单只保留播放列表中的频道（在 Worker 中过滤）
+  const guideChannelIds = useMemo(
+    () => (channels.length > 0 ? getGuideChannelIds(channels) : undefined),
+    [channels]
+  );
+  // 等播放列表加载后再请求节目单，按播放列表的 x-tvg-timezone 解析时间
+  const { epgData, isLoading: isEPGLoading } = useEPGLoader(
+    isM3ULoading ? null : DEFAULT_EPG_URL,
+    header?.epgTimezone,
+    guideChannelIds
+  );
   
   const t = usePlayerTranslation('zh-Hans');
   
   // 初始化最后播放的频道
   useEffect(() => {
     if (channels.length > 0) {
-      const lastChannelId = getLastChannelId();
-      const initialChannel = lastChannelId 
-        ? channels.find(c => c.id === lastChannelId) 
-        : channels[0];
-      
-      if (initialChannel) {
-        setPlayerState(prev => ({
-          ...prev,
-          currentChannel: initialChannel,
-        }));
-      }
+      setPlayerState(prev => {
+        // 刷新后换成新的频道对象，以便列表高亮、频道号和上下切台仍能找到当前频道；
+        // 播放器按播放地址重新加载，地址不变时不会重新开始播放
+        if (prev.currentChannel) {
+          const refreshed = channels.find(c => c.id === prev.currentChannel?.id);
+          return refreshed ? { ...prev, currentChannel: refreshed } : prev;
+        }
+        
+        const lastChannelId = getLastChannelId();
+        const initialChannel = lastChannelId 
+          ? channels.find(c => c.id === lastChannelId) 
+          : channels[0];
+        return initialChannel ? { ...prev, currentChannel: initialChannel } : prev;
+      });
     }
   }, [channels]);
   
@@ -106,10 +121,15 @@ const App = () => {
     });
   };
   
-  // 更新播放器状态
-  const updatePlayerState = (updates: Partial<PlayerState>) => {
+  // 更新播放器状态（引用保持不变，播放器不会因暂停、音量等状态变化而重建）
+  const updatePlayerState = useCallback((updates: Partial<PlayerState>) => {
     setPlayerState(prev => ({ ...prev, ...updates }));
-  };
+  }, []);
+  
+  // 节目单按 tvg-id、tvg-name、频道名依次匹配
+  const epgChannelId = playerState.currentChannel && epgData
+    ? getEPGChannelId(playerState.currentChannel, epgData)
+    : null;
   
   if (isM3ULoading || isEPGLoading) {
     return (
@@ -151,6 +171,8 @@ const App = () => {
                 state={playerState}
                 updateState={updatePlayerState}
                 locale="zh-Hans"
+                programs={epgChannelId ? epgData?.[epgChannelId] : undefined}
+                channelNumber={getChannelNumber(channels, playerState.currentChannel)}
               />
             ) : (
               <div className="flex items-center justify-center h-full text-white">
@@ -167,6 +189,7 @@ const App = () => {
               onProgramSelect={handleProgramSelect}
               locale="zh-Hans"
               supportsCatchup={true}
+              catchupDays={playerState.currentChannel?.catchupDays}
               currentPlayingProgram={currentPlayingProgram}
             />
           </div>
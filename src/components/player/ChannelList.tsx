@@ -1,6 +1,10 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useRef, useState, KeyboardEvent } from 'react';
+import { Download, GripVertical, Search, Star, Upload, X } from 'lucide-react';
 import { Channel, Locale } from '../../types/player';
 import { usePlayerTranslation } from '../../hooks/use-player-translation';
+import { useFavorites } from '../../hooks/use-favorites';
+import { searchChannels } from '../../lib/channel-search';
+import { exportFavorites, getChannelKey, getFavoriteChannels, parseFavoritesExport } from '../../lib/favorites';
 import { cn } from '../../lib/utils';
 
 interface ChannelListProps {
@@ -13,23 +17,119 @@ interface ChannelListProps {
 
 const ChannelList = ({ channels, groups, currentChannel, onSelect, locale }: ChannelListProps) => {
   const [selectedGroup, setSelectedGroup] = useState<string | null>(null);
+  // 收藏是虚拟分组，与普通分组互斥
+  const [showFavorites, setShowFavorites] = useState(false);
+  const [query, setQuery] = useState('');
+  const { favoriteKeys, isFavorite, toggleFavorite, moveFavorite, setFavoriteKeys } = useFavorites();
+  // 正在拖动的收藏频道 key
+  const [draggingKey, setDraggingKey] = useState<string | null>(null);
+  const [favoritesMessage, setFavoritesMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // 搜索结果中键盘选中的位置
+  const [activeIndex, setActiveIndex] = useState(0);
+  const activeItemRef = useRef<HTMLDivElement>(null);
   const t = usePlayerTranslation(locale);
   
-  // 过滤频道
-  const filteredChannels = selectedGroup 
-    ? channels.filter(c => c.group === selectedGroup)
-    : channels;
+  // 过滤频道；有搜索词时按匹配度排序（频道号按完整列表计算）
+  const filteredChannels = useMemo(() => {
+    if (showFavorites) {
+      const favorites = getFavoriteChannels(channels, favoriteKeys);
+      if (!query.trim()) return favorites;
+      const favoriteSet = new Set(favorites);
+      return searchChannels(channels, query).filter(c => favoriteSet.has(c));
+    }
+    const inGroup = (c: Channel) => !selectedGroup || c.group === selectedGroup;
+    return query.trim()
+      ? searchChannels(channels, query).filter(inGroup)
+      : channels.filter(inGroup);
+  }, [channels, selectedGroup, showFavorites, favoriteKeys, query]);
+  const isSearching = query.trim() !== '';
+  // 只有未搜索时的收藏列表可以拖动排序
+  const canReorder = showFavorites && !isSearching;
+  
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query, selectedGroup, showFavorites]);
+  
+  const handleExportFavorites = () => {
+    const blob = new Blob([exportFavorites(favoriteKeys, channels)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'rtp2httpd-favorites.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+  
+  const handleImportFavorites = async (input: HTMLInputElement) => {
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    try {
+      const keys = parseFavoritesExport(await file.text());
+      setFavoriteKeys(keys);
+      setFavoritesMessage(t('favoritesImported').replace('{count}', String(keys.length)));
+    } catch (err) {
+      setFavoritesMessage(err instanceof Error ? err.message : String(err));
+    }
+  };
+  
+  useEffect(() => {
+    activeItemRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+  
+  const handleSearchKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, filteredChannels.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      const channel = filteredChannels[activeIndex];
+      if (channel) onSelect(channel);
+    } else if (e.key === 'Escape') {
+      setQuery('');
+    }
+  };
   
   return (
     <div className="h-full flex flex-col">
+      {/* 搜索 */}
+      <div className="p-2 border-b border-border">
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <input
+            type="search"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            onKeyDown={handleSearchKeyDown}
+            placeholder={t('searchChannels')}
+            aria-label={t('searchChannels')}
+            className="w-full rounded border border-border bg-background py-1.5 pl-8 pr-7 text-sm focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+          />
+          {query && (
+            <button
+              onClick={() => setQuery('')}
+              className="absolute right-1.5 top-1/2 -translate-y-1/2 rounded p-0.5 hover:bg-muted"
+            >
+              <X className="h-3.5 w-3.5 text-muted-foreground" />
+            </button>
+          )}
+        </div>
+      </div>
+      
       {/* 分组筛选 */}
       <div className="p-2 border-b border-border overflow-x-auto">
         <div className="flex gap-1">
           <button
-            onClick={() => setSelectedGroup(null)}
+            onClick={() => {
+              setSelectedGroup(null);
+              setShowFavorites(false);
+            }}
             className={cn(
               "px-2 py-1 text-xs rounded whitespace-nowrap",
-              selectedGroup === null 
+              selectedGroup === null && !showFavorites
                 ? "bg-primary text-primary-foreground" 
                 : "bg-muted hover:bg-muted/80"
             )}
@@ -37,13 +137,32 @@ const ChannelList = ({ channels, groups, currentChannel, onSelect, locale }: Cha
             {t('allChannels')}
           </button>
           
+          <button
+            onClick={() => {
+              setSelectedGroup(null);
+              setShowFavorites(true);
+            }}
+            className={cn(
+              "flex items-center gap-1 px-2 py-1 text-xs rounded whitespace-nowrap",
+              showFavorites
+                ? "bg-primary text-primary-foreground" 
+                : "bg-muted hover:bg-muted/80"
+            )}
+          >
+            <Star className="h-3 w-3" />
+            {t('favorites')}
+          </button>
+          
           {groups.map(group => (
             <button
               key={group}
-              onClick={() => setSelectedGroup(group)}
+              onClick={() => {
+                setSelectedGroup(group);
+                setShowFavorites(false);
+              }}
               className={cn(
                 "px-2 py-1 text-xs rounded whitespace-nowrap",
-                selectedGroup === group 
+                selectedGroup === group && !showFavorites
                   ? "bg-primary text-primary-foreground" 
                   : "bg-muted hover:bg-muted/80"
               )}
@@ -54,24 +173,70 @@ const ChannelList = ({ channels, groups, currentChannel, onSelect, locale }: Cha
         </div>
       </div>
       
+      {/* 收藏导入/导出 */}
+      {showFavorites && (
+        <div className="flex items-center gap-2 px-2 py-1.5 border-b border-border text-xs">
+          <span className="flex-1 truncate text-muted-foreground">{favoritesMessage}</span>
+          <button
+            onClick={handleExportFavorites}
+            disabled={favoriteKeys.length === 0}
+            title={t('exportFavorites')}
+            className="rounded p-1 hover:bg-muted disabled:opacity-30"
+          >
+            <Download className="h-3.5 w-3.5" />
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            title={t('importFavorites')}
+            className="rounded p-1 hover:bg-muted"
+          >
+            <Upload className="h-3.5 w-3.5" />
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={e => handleImportFavorites(e.target)}
+          />
+        </div>
+      )}
+      
       {/* 频道列表 */}
       <div className="flex-1 overflow-y-auto">
         {filteredChannels.length === 0 ? (
-          <div className="flex items-center justify-center h-full text-muted-foreground text-sm">
-            {t('noChannelSelected')}
+          <div className="flex items-center justify-center h-full px-4 text-center text-muted-foreground text-sm">
+            {isSearching ? t('noSearchResults') : showFavorites ? t('noFavorites') : t('noChannelSelected')}
           </div>
         ) : (
           <div className="divide-y divide-border">
-            {filteredChannels.map(channel => (
+            {filteredChannels.map((channel, index) => (
               <div
                 key={channel.id}
+                ref={isSearching && index === activeIndex ? activeItemRef : undefined}
                 onClick={() => onSelect(channel)}
+                draggable={canReorder}
+                onDragStart={canReorder ? () => setDraggingKey(getChannelKey(channel)) : undefined}
+                onDragOver={canReorder ? (e) => {
+                  e.preventDefault();
+                  const key = getChannelKey(channel);
+                  if (draggingKey && draggingKey !== key) moveFavorite(draggingKey, key);
+                } : undefined}
+                onDragEnd={canReorder ? () => setDraggingKey(null) : undefined}
                 className={cn(
-                  "px-3 py-2 hover:bg-muted cursor-pointer transition-colors",
-                  currentChannel?.id === channel.id && "bg-primary/10 font-medium"
+                  "group px-3 py-2 hover:bg-muted cursor-pointer transition-colors",
+                  currentChannel?.id === channel.id && "bg-primary/10 font-medium",
+                  isSearching && index === activeIndex && "bg-muted",
+                  draggingKey === getChannelKey(channel) && "opacity-50"
                 )}
               >
                 <div className="flex items-center gap-2">
+                  {canReorder && (
+                    <GripVertical
+                      className="h-3.5 w-3.5 shrink-0 cursor-grab text-muted-foreground"
+                      aria-label={t('dragToReorder')}
+                    />
+                  )}
                   {channel.logo && (
                     <img
                       src={channel.logo}
@@ -82,7 +247,25 @@ const ChannelList = ({ channels, groups, currentChannel, onSelect, locale }: Cha
                       }}
                     />
                   )}
-                  <span className="truncate">{channel.name}</span>
+                  <span className="flex-1 truncate">{channel.name}</span>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      toggleFavorite(channel);
+                    }}
+                    title={isFavorite(channel) ? t('removeFromFavorites') : t('addToFavorites')}
+                    className={cn(
+                      "rounded p-0.5 hover:bg-background",
+                      !isFavorite(channel) && "opacity-0 group-hover:opacity-100 focus:opacity-100"
+                    )}
+                  >
+                    <Star
+                      className={cn(
+                        "h-3.5 w-3.5",
+                        isFavorite(channel) ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground"
+                      )}
+                    />
+                  </button>
                 </div>
               </div>
             ))}
@@ -0,0 +1,30 @@
+import { Channel, Locale } from '../../types/player';
+import { usePlayerTranslation } from '../../hooks/use-player-translation';
+
+interface ChannelNumberOverlayProps {
+  /** 正在输入的频道号 */
+  number: string;
+  /** 该频道号对应的频道，不存在时为 undefined */
+  channel?: Channel;
+  locale: Locale;
+}
+
+const ChannelNumberOverlay = ({ number, channel, locale }: ChannelNumberOverlayProps) => {
+  const t = usePlayerTranslation(locale);
+
+  if (!number) return null;
+
+  return (
+    <div
+      role="status"
+      className="pointer-events-none fixed right-4 top-4 z-30 flex min-w-24 flex-col items-end rounded-md bg-black/70 px-4 py-2 text-white"
+    >
+      <span className="text-4xl font-semibold tabular-nums">{number}</span>
+      <span className="max-w-48 truncate text-xs text-white/80">
+        {channel ? channel.name : t('channelNumberNotFound').replace('{number}', number)}
+      </span>
+    </div>
+  );
+};
+
+export default ChannelNumberOverlay;
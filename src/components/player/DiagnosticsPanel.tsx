@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { Check, Copy, X } from 'lucide-react';
+import { Locale } from '../../types/player';
+import { usePlayerTranslation } from '../../hooks/use-player-translation';
+import { DiagnosticsSample, StreamDiagnostics, formatDiagnosticsReport, getSampledFrameRate } from '../../lib/stream-diagnostics';
+
+interface DiagnosticsPanelProps {
+  /** 尚未采样时为 null */
+  diagnostics: StreamDiagnostics | null;
+  onClose: () => void;
+  locale: Locale;
+}
+
+const CHART_WIDTH = 240;
+const CHART_HEIGHT = 48;
+
+// 按各自的最大值归一化，缓冲和延迟画在同一张图上
+const toPoints = (samples: DiagnosticsSample[], pick: (sample: DiagnosticsSample) => number) => {
+  const max = Math.max(...samples.map(pick), 0.001);
+  const step = CHART_WIDTH / Math.max(1, samples.length - 1);
+  return samples
+    .map((sample, i) => `${(i * step).toFixed(1)},${(CHART_HEIGHT - (pick(sample) / max) * CHART_HEIGHT).toFixed(1)}`)
+    .join(' ');
+};
+
+const DiagnosticsPanel = ({ diagnostics, onClose, locale }: DiagnosticsPanelProps) => {
+  const t = usePlayerTranslation(locale);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = () => {
+    if (!diagnostics) return;
+    navigator.clipboard.writeText(formatDiagnosticsReport(diagnostics))
+      .then(() => setCopied(true))
+      .catch(err => console.error('Failed to copy diagnostics:', err));
+  };
+
+  const samples = diagnostics?.samples ?? [];
+  const last = samples[samples.length - 1];
+  const fps = getSampledFrameRate(samples);
+
+  // 当前使用的 mpegts.js 不提供下载速度和编码信息
+  const rows: [string, string][] = [
+    [t('downloadSpeed'), t('unavailable')],
+    [t('bufferLength'), last ? `${last.bufferSeconds.toFixed(2)} s` : '-'],
+    [t('frames'), last ? `${last.decodedFrames} / ${last.droppedFrames}` : '-'],
+    [t('codec'), t('unavailable')],
+    [t('resolution'), diagnostics?.width && diagnostics.height ? `${diagnostics.width}×${diagnostics.height}` : '-'],
+    [t('frameRate'), fps ? fps.toFixed(2) : '-'],
+    [t('liveLatency'), last?.latencySeconds != null ? `${last.latencySeconds.toFixed(2)} s` : '-'],
+    [t('reconnects'), String(diagnostics?.reconnects ?? 0)],
+  ];
+
+  return (
+    <div
+      className="absolute left-3 top-3 z-30 w-72 rounded-md bg-black/80 p-3 text-xs text-white"
+      onClick={e => e.stopPropagation()}
+    >
+      <div className="mb-2 flex items-center justify-between">
+        <span className="font-medium">{t('diagnostics')}</span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={handleCopy}
+            disabled={!diagnostics}
+            title={t('copyReport')}
+            className="rounded p-1 hover:bg-white/20 disabled:opacity-40"
+          >
+            {copied ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+          </button>
+          <button onClick={onClose} title={t('close')} className="rounded p-1 hover:bg-white/20">
+            <X className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+        {rows.map(([label, value]) => (
+          <div key={label} className="contents">
+            <dt className="opacity-70">{label}</dt>
+            <dd className="truncate text-right tabular-nums">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {/* 最近一分钟的缓冲长度和直播延迟 */}
+      {samples.length > 1 && (
+        <div className="mt-2">
+          <svg width={CHART_WIDTH} height={CHART_HEIGHT} className="w-full bg-white/5">
+            <polyline points={toPoints(samples, sample => sample.bufferSeconds)} fill="none" stroke="#22c55e" strokeWidth={1.5} />
+            {diagnostics?.isLive && (
+              <polyline points={toPoints(samples, sample => sample.latencySeconds ?? 0)} fill="none" stroke="#3b82f6" strokeWidth={1.5} />
+            )}
+          </svg>
+          <div className="mt-1 flex gap-3 opacity-70">
+            <span className="text-green-500">■ {t('bufferLength')}</span>
+            {diagnostics?.isLive && <span className="text-blue-500">■ {t('liveLatency')}</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
@@ -0,0 +1,260 @@
+import { useMemo, useRef, useLayoutEffect, memo, useState, useEffect } from "react";
+import { Channel, EPGProgram, Locale } from "../../types/player";
+import { EPGData, getEPGChannelId, getProgramTitle } from "../../lib/epg-parser";
+import { getCatchupWindowStart, supportsCatchup } from "../../lib/catchup";
+import { getChannelNumber } from "../../lib/channel-search";
+import { getGridTimeRange, getProgramsInRange, getVisibleIndexRange } from "../../lib/epg-grid";
+import { usePlayerTranslation } from "../../hooks/use-player-translation";
+import { cn } from "../../lib/utils";
+
+interface EPGGridProps {
+  channels: Channel[];
+  epgData: EPGData;
+  currentChannel: Channel | null;
+  currentPlayingProgram: EPGProgram | null;
+  /** Same contract as EPGView: an on-air programme is selected as (now, now) to tune live */
+  onProgramSelect: (channel: Channel, programStart: Date, programEnd: Date) => void;
+  locale: Locale;
+}
+
+const ROW_HEIGHT = 48;
+const HEADER_HEIGHT = 32;
+const CHANNEL_COLUMN_WIDTH = 136;
+const PIXELS_PER_MINUTE = 4;
+const HOUR_MS = 60 * 60 * 1000;
+const ROW_OVERSCAN = 4;
+// Render programmes this far beyond each side of the viewport
+const TIME_OVERSCAN_MS = HOUR_MS;
+
+function EPGGridComponent({
+  channels,
+  epgData,
+  currentChannel,
+  currentPlayingProgram,
+  onProgramSelect,
+  locale,
+}: EPGGridProps) {
+  const t = usePlayerTranslation(locale);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const hasScrolledRef = useRef(false);
+  const [scroll, setScroll] = useState({ left: 0, top: 0 });
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const [currentTime, setCurrentTime] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = window.setInterval(() => {
+      setCurrentTime(new Date());
+    }, 30 * 1000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  // Track the viewport size for virtualization
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => {
+      setViewport({ width: element.clientWidth, height: element.clientHeight });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Guide of each row, resolved once per lineup / guide change
+  const channelPrograms = useMemo(
+    () =>
+      channels.map((channel) => {
+        const epgChannelId = getEPGChannelId(channel, epgData);
+        return (epgChannelId && epgData[epgChannelId]) || [];
+      }),
+    [channels, epgData],
+  );
+
+  // The range only depends on the guide; now is sampled when the guide changes
+  const timeRange = useMemo(() => getGridTimeRange(channelPrograms), [channelPrograms]);
+
+  const toX = (time: Date) => ((time.getTime() - timeRange.start.getTime()) / 60000) * PIXELS_PER_MINUTE;
+  const totalWidth = toX(timeRange.end);
+  const nowX = toX(currentTime);
+
+  // Start with the now-line near the left edge and the playing channel in view
+  useLayoutEffect(() => {
+    const element = scrollRef.current;
+    if (!element || hasScrolledRef.current || viewport.width === 0) return;
+    hasScrolledRef.current = true;
+
+    const currentIndex = currentChannel ? channels.indexOf(currentChannel) : -1;
+    element.scrollLeft = Math.max(0, nowX - (viewport.width - CHANNEL_COLUMN_WIDTH) / 4);
+    element.scrollTop = Math.max(0, currentIndex * ROW_HEIGHT - (viewport.height - HEADER_HEIGHT) / 2);
+  }, [viewport, nowX, channels, currentChannel]);
+
+  const rows = getVisibleIndexRange(
+    ROW_HEIGHT,
+    channels.length,
+    scroll.top,
+    viewport.height - HEADER_HEIGHT,
+    ROW_OVERSCAN,
+  );
+
+  const visibleStart = new Date(
+    timeRange.start.getTime() + (scroll.left / PIXELS_PER_MINUTE) * 60000 - TIME_OVERSCAN_MS,
+  );
+  const visibleEnd = new Date(
+    timeRange.start.getTime() +
+      ((scroll.left + viewport.width - CHANNEL_COLUMN_WIDTH) / PIXELS_PER_MINUTE) * 60000 +
+      TIME_OVERSCAN_MS,
+  );
+
+  // Hour marks in view
+  const hours: Date[] = [];
+  for (
+    let time =
+      timeRange.start.getTime() +
+      Math.max(0, Math.floor((visibleStart.getTime() - timeRange.start.getTime()) / HOUR_MS)) * HOUR_MS;
+    time < Math.min(timeRange.end.getTime(), visibleEnd.getTime());
+    time += HOUR_MS
+  ) {
+    hours.push(new Date(time));
+  }
+
+  const formatTime = (date: Date) => {
+    return date.toLocaleTimeString([], {
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  const handleProgramClick = (channel: Channel, program: EPGProgram) => {
+    const onAir = program.start <= currentTime && program.end > currentTime;
+    if (onAir) {
+      // Click on-air program to go live
+      const now = new Date();
+      onProgramSelect(channel, now, now);
+      return;
+    }
+
+    if (program.end > currentTime || !supportsCatchup(channel)) return;
+    const catchupWindowStart = getCatchupWindowStart(channel, currentTime);
+    if (catchupWindowStart && program.end <= catchupWindowStart) return;
+    // Programmes straddling the window edge start at the oldest archived point
+    const start = catchupWindowStart && program.start < catchupWindowStart ? catchupWindowStart : program.start;
+    onProgramSelect(channel, start, program.end);
+  };
+
+  if (channelPrograms.every((programs) => programs.length === 0)) {
+    return <div className="flex h-full items-center justify-center text-muted-foreground">{t("noEpgAvailable")}</div>;
+  }
+
+  return (
+    <div
+      ref={scrollRef}
+      className="relative h-full overflow-auto"
+      onScroll={(e) => setScroll({ left: e.currentTarget.scrollLeft, top: e.currentTarget.scrollTop })}
+    >
+      <div
+        className="relative"
+        style={{
+          width: CHANNEL_COLUMN_WIDTH + totalWidth,
+          height: HEADER_HEIGHT + channels.length * ROW_HEIGHT,
+        }}
+      >
+        {/* Time axis */}
+        <div className="sticky top-0 z-30 border-b border-border bg-card" style={{ height: HEADER_HEIGHT }}>
+          <div
+            className="sticky left-0 z-10 h-full border-r border-border bg-card"
+            style={{ width: CHANNEL_COLUMN_WIDTH }}
+          />
+          {hours.map((hour) => (
+            <div
+              key={hour.getTime()}
+              className="absolute top-0 flex h-full items-center border-l border-border pl-1.5 text-xs tabular-nums text-muted-foreground"
+              style={{ left: CHANNEL_COLUMN_WIDTH + toX(hour) }}
+            >
+              {formatTime(hour)}
+            </div>
+          ))}
+        </div>
+
+        {/* Channel rows */}
+        {channels.slice(rows.start, rows.end).map((channel, offset) => {
+          const index = rows.start + offset;
+          const isCurrentChannel = channel === currentChannel;
+          const replayWindowStart = supportsCatchup(channel) ? getCatchupWindowStart(channel, currentTime) : null;
+
+          return (
+            <div
+              key={channel.id}
+              className={cn("absolute left-0 border-b border-border", isCurrentChannel && "bg-primary/5")}
+              style={{ top: HEADER_HEIGHT + index * ROW_HEIGHT, height: ROW_HEIGHT, width: "100%" }}
+            >
+              {/* Channel column */}
+              <div
+                className={cn(
+                  "sticky left-0 z-20 flex h-full items-center gap-2 border-r border-border bg-card px-2",
+                  isCurrentChannel && "text-primary",
+                )}
+                style={{ width: CHANNEL_COLUMN_WIDTH }}
+              >
+                <span className="w-6 shrink-0 text-right text-xs tabular-nums text-muted-foreground">
+                  {getChannelNumber(channels, channel)}
+                </span>
+                {channel.logo && (
+                  <img
+                    src={channel.logo}
+                    alt=""
+                    className="h-6 w-6 shrink-0 rounded object-contain"
+                    onError={(e) => {
+                      e.currentTarget.style.display = "none";
+                    }}
+                  />
+                )}
+                <span className="truncate text-xs font-medium">{channel.name}</span>
+              </div>
+
+              {/* Programmes */}
+              {getProgramsInRange(channelPrograms[index], visibleStart, visibleEnd).map((program) => {
+                const onAir = program.start <= currentTime && program.end > currentTime;
+                const isPast = program.end <= currentTime;
+                const replayable =
+                  isPast && supportsCatchup(channel) && (!replayWindowStart || program.end > replayWindowStart);
+                const playing = isCurrentChannel && currentPlayingProgram?.id === program.id;
+                const left = Math.max(0, toX(program.start));
+                const width = Math.min(totalWidth, toX(program.end)) - left;
+                if (width <= 0) return null;
+
+                return (
+                  <div
+                    key={program.id}
+                    title={`${formatTime(program.start)} ${getProgramTitle(program, locale) || t("excellentProgram")}`}
+                    onClick={() => handleProgramClick(channel, program)}
+                    className={cn(
+                      "absolute top-0 flex h-full flex-col justify-center overflow-hidden border-r border-border px-2 text-xs",
+                      playing ? "bg-primary/20 text-primary" : onAir ? "bg-muted" : "",
+                      isPast && !playing && "opacity-60",
+                      (replayable || onAir) && "cursor-pointer hover:bg-muted/80 hover:opacity-100",
+                    )}
+                    style={{ left: CHANNEL_COLUMN_WIDTH + left, width }}
+                  >
+                    <span className="truncate font-medium">{getProgramTitle(program, locale) || t("excellentProgram")}</span>
+                    <span className="truncate text-[10px] tabular-nums text-muted-foreground">
+                      {formatTime(program.start)}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+
+        {/* Now line */}
+        {nowX >= 0 && nowX <= totalWidth && (
+          <div
+            className="pointer-events-none absolute z-10 w-0.5 bg-primary"
+            style={{ left: CHANNEL_COLUMN_WIDTH + nowX, top: HEADER_HEIGHT, height: channels.length * ROW_HEIGHT }}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+export const EPGGrid = memo(EPGGridComponent);
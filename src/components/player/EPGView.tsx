@@ -1,7 +1,8 @@
 import { useMemo, useRef, useLayoutEffect, memo, useCallback, useState, useEffect } from "react";
-import { Circle, History } from "lucide-react";
-import { EPGProgram, Locale } from "../../types/player";
-import { EPGData } from "../../lib/epg-parser";
+import { Bell, BellRing, ChevronDown, Circle, History } from "lucide-react";
+import { EPGEpisode, EPGProgram, Locale } from "../../types/player";
+import { EPGData, getProgramTitle, pickLocalizedText } from "../../lib/epg-parser";
+import { getCatchupWindowStart } from "../../lib/catchup";
 import { Card } from "../ui/card";
 import { usePlayerTranslation } from "../../hooks/use-player-translation";
 import { cn } from "../../lib/utils";
@@ -12,7 +13,17 @@ interface EPGViewProps {
   onProgramSelect: (programStart: Date, programEnd: Date) => void;
   locale: Locale;
   supportsCatchup: boolean;
+  /** Archive depth of the channel; programmes older than this are shown as unavailable */
+  catchupDays?: number;
   currentPlayingProgram: EPGProgram | null;
+  /** Whether a reminder is set on an upcoming programme */
+  isReminderSet?: (program: EPGProgram) => boolean;
+  /** Set or cancel a reminder; upcoming programmes are only clickable when provided */
+  onReminderToggle?: (program: EPGProgram) => void;
+  /** Whether an upcoming programme is scheduled to be recorded */
+  isRecordingScheduled?: (program: EPGProgram) => boolean;
+  /** Schedule or cancel recording an upcoming programme */
+  onRecordToggle?: (program: EPGProgram) => void;
 }
 
 export const nextScrollBehaviorRef: { current: "smooth" | "instant" | "skip" } = { current: "instant" };
@@ -23,11 +34,17 @@ function EPGViewComponent({
   onProgramSelect,
   locale,
   supportsCatchup,
+  catchupDays,
   currentPlayingProgram,
+  isReminderSet,
+  onReminderToggle,
+  isRecordingScheduled,
+  onRecordToggle,
 }: EPGViewProps) {
   const t = usePlayerTranslation(locale);
   const currentProgramRef = useRef<HTMLDivElement>(null);
   const [currentTime, setCurrentTime] = useState(() => new Date());
+  const [expandedProgramId, setExpandedProgramId] = useState<string | null>(null);
 
   useEffect(() => {
     const interval = window.setInterval(() => {
@@ -136,10 +153,46 @@ function EPGViewComponent({
     return program.end <= currentTime;
   };
 
+  const catchupWindowStart = getCatchupWindowStart({ catchupDays }, currentTime);
+
+  // Past programme still (at least partly) inside the archive window
+  const isReplayable = (program: EPGProgram) => {
+    return supportsCatchup && isPastProgram(program) && (!catchupWindowStart || program.end > catchupWindowStart);
+  };
+
+  // Past programme that has already dropped out of the archive window
+  const isExpired = (program: EPGProgram) => {
+    return supportsCatchup && isPastProgram(program) && !!catchupWindowStart && program.end <= catchupWindowStart;
+  };
+
+  const isUpcoming = (program: EPGProgram) => {
+    return program.start > currentTime;
+  };
+
   const isCurrentlyPlaying = (program: EPGProgram) => {
     return currentPlayingProgram?.id === program.id;
   };
 
+  const hasDetails = (program: EPGProgram) => {
+    return !!(
+      program.descriptions?.length ||
+      program.subTitles?.length ||
+      program.categories?.length ||
+      program.episode ||
+      program.icon ||
+      program.ratings?.length ||
+      program.credits?.length
+    );
+  };
+
+  const formatEpisode = (episode: EPGEpisode) => {
+    if (episode.episode !== undefined) {
+      const episodeLabel = episode.totalEpisodes ? `E${episode.episode}/${episode.totalEpisodes}` : `E${episode.episode}`;
+      return episode.season !== undefined ? `S${episode.season} ${episodeLabel}` : episodeLabel;
+    }
+    return episode.display || (episode.season !== undefined ? `S${episode.season}` : "");
+  };
+
   if (!channelId || channelPrograms.length === 0) {
     return <div className="flex h-full items-center justify-center text-muted-foreground">{t("noEpgAvailable")}</div>;
   }
@@ -162,7 +215,14 @@ function EPGViewComponent({
                   {programs.map((program) => {
                     const onAir = isOnAir(program);
                     const isPast = isPastProgram(program);
+                    const replayable = isReplayable(program);
+                    const expired = isExpired(program);
                     const playing = isCurrentlyPlaying(program);
+                    const remindable = !!onReminderToggle && isUpcoming(program);
+                    const reminderSet = remindable && !!isReminderSet?.(program);
+                    const recordable = !!onRecordToggle && isUpcoming(program);
+                    const recordingScheduled = recordable && !!isRecordingScheduled?.(program);
+                    const expanded = expandedProgramId === program.id;
 
                     return (
                       <Card
@@ -172,19 +232,27 @@ function EPGViewComponent({
                           "overflow-hidden border transition-all duration-200",
                           playing
                             ? "border-primary bg-primary/5 shadow-md"
-                            : isPast
-                              ? "border-border opacity-70"
-                              : "border-border",
-                          ((isPast && supportsCatchup) || onAir) &&
+                            : expired
+                              ? "border-border opacity-40"
+                              : isPast
+                                ? "border-border opacity-70"
+                                : "border-border",
+                          (replayable || onAir || remindable) &&
                             "cursor-pointer hover:border-primary/50 hover:bg-muted/50 hover:opacity-100 hover:shadow-sm",
                         )}
                         onClick={() => {
-                          if (isPast && supportsCatchup) {
-                            handleProgramClick(program.start, program.end);
+                          if (replayable) {
+                            // Programmes straddling the window edge start at the oldest archived point
+                            const start =
+                              catchupWindowStart && program.start < catchupWindowStart ? catchupWindowStart : program.start;
+                            handleProgramClick(start, program.end);
                           } else if (onAir) {
                             // Click on-air program to go live
                             const now = new Date();
                             handleProgramClick(now, now);
+                          } else if (remindable) {
+                            nextScrollBehaviorRef.current = "skip";
+                            onReminderToggle(program);
                           }
                         }}
                       >
@@ -193,7 +261,7 @@ function EPGViewComponent({
                           <div className="flex shrink-0">
                             {playing ? (
                               <div className="h-8 md:h-10 w-1 rounded-full bg-primary" title={t("nowPlaying")} />
-                            ) : isPast && supportsCatchup ? (
+                            ) : replayable ? (
                               <div
                                 className="h-8 md:h-10 w-1 rounded-full bg-muted-foreground/30"
                                 title={t("replay")}
@@ -221,10 +289,56 @@ function EPGViewComponent({
                           {/* Middle-Right: Title and Description */}
                           <div className="flex-1 overflow-hidden min-w-0">
                             <div className="text-sm md:text-base font-semibold leading-tight">
-                              {program.title || t("excellentProgram")}
+                              {getProgramTitle(program, locale) || t("excellentProgram")}
                             </div>
+                            {!!(program.subTitles?.length || program.episode) && (
+                              <div className="truncate text-[10px] md:text-xs text-muted-foreground">
+                                {[program.episode && formatEpisode(program.episode), pickLocalizedText(program.subTitles, locale)]
+                                  .filter(Boolean)
+                                  .join(" · ")}
+                              </div>
+                            )}
                           </div>
 
+                          {/* Scheduled recording toggle */}
+                          {recordable && (
+                            <button
+                              type="button"
+                              className="flex h-6 w-6 shrink-0 items-center justify-center rounded text-muted-foreground hover:bg-muted hover:text-foreground"
+                              title={recordingScheduled ? t("cancelScheduledRecording") : t("scheduleRecording")}
+                              aria-pressed={recordingScheduled}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                nextScrollBehaviorRef.current = "skip";
+                                onRecordToggle(program);
+                              }}
+                            >
+                              <Circle
+                                className={cn(
+                                  "h-3 w-3",
+                                  recordingScheduled ? "fill-red-600 text-red-600" : "text-muted-foreground/60",
+                                )}
+                              />
+                            </button>
+                          )}
+
+                          {/* Details toggle */}
+                          {hasDetails(program) && (
+                            <button
+                              type="button"
+                              className="flex h-6 w-6 shrink-0 items-center justify-center rounded text-muted-foreground hover:bg-muted hover:text-foreground"
+                              title={expanded ? t("hideDetails") : t("showDetails")}
+                              aria-expanded={expanded}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                nextScrollBehaviorRef.current = "skip";
+                                setExpandedProgramId(expanded ? null : program.id);
+                              }}
+                            >
+                              <ChevronDown className={cn("h-3.5 w-3.5 transition-transform", expanded && "rotate-180")} />
+                            </button>
+                          )}
+
                           {/* Right: Status Icon (unified position) */}
                           <div className="flex h-8 md:h-10 w-3 md:w-4 shrink-0 items-center justify-center">
                             {onAir && (
@@ -232,13 +346,94 @@ function EPGViewComponent({
                                 <Circle className="h-2.5 w-2.5 md:h-3 md:w-3 text-primary fill-current" />
                               </span>
                             )}
-                            {isPast && supportsCatchup && (
+                            {replayable && (
                               <span title={t("replay")}>
                                 <History className="h-3 w-3 md:h-3.5 md:w-3.5 text-muted-foreground" />
                               </span>
                             )}
+                            {remindable && (
+                              <span title={reminderSet ? t("cancelReminder") : t("setReminder")}>
+                                {reminderSet ? (
+                                  <BellRing className="h-3 w-3 md:h-3.5 md:w-3.5 text-primary" />
+                                ) : (
+                                  <Bell className="h-3 w-3 md:h-3.5 md:w-3.5 text-muted-foreground/40" />
+                                )}
+                              </span>
+                            )}
+                            {expired && (
+                              <span title={t("catchupUnavailable")}>
+                                <History className="h-3 w-3 md:h-3.5 md:w-3.5 text-muted-foreground/40" />
+                              </span>
+                            )}
                           </div>
                         </div>
+
+                        {/* Expandable detail panel */}
+                        {expanded && (
+                          <div
+                            className="flex gap-2.5 border-t border-border px-2.5 py-2 text-xs"
+                            onClick={(e) => e.stopPropagation()}
+                          >
+                            {program.icon && (
+                              <img
+                                src={program.icon}
+                                alt=""
+                                className="h-16 w-12 shrink-0 rounded object-cover"
+                                onError={(e) => {
+                                  e.currentTarget.style.display = "none";
+                                }}
+                              />
+                            )}
+                            <div className="min-w-0 flex-1 space-y-1.5">
+                              {!!(program.categories?.length || program.ratings?.length) && (
+                                <div className="flex flex-wrap gap-1">
+                                  {program.categories?.map((category, index) => (
+                                    <span key={`category-${index}`} className="rounded bg-muted px-1.5 py-0.5">
+                                      {category.value}
+                                    </span>
+                                  ))}
+                                  {program.ratings?.map((rating, index) => (
+                                    <span
+                                      key={`rating-${index}`}
+                                      className="rounded border border-border px-1.5 py-0.5"
+                                      title={rating.system ? `${t("rating")} (${rating.system})` : t("rating")}
+                                    >
+                                      {rating.value}
+                                    </span>
+                                  ))}
+                                </div>
+                              )}
+                              {program.episode && (
+                                <div className="text-muted-foreground">
+                                  {t("episode")}: {formatEpisode(program.episode)}
+                                </div>
+                              )}
+                              {!!program.descriptions?.length && (
+                                <p className="whitespace-pre-line leading-relaxed">
+                                  {pickLocalizedText(program.descriptions, locale)}
+                                </p>
+                              )}
+                              {program.credits?.some((credit) => credit.role === "director") && (
+                                <div className="text-muted-foreground">
+                                  {t("director")}:{" "}
+                                  {program.credits
+                                    .filter((credit) => credit.role === "director")
+                                    .map((credit) => credit.name)
+                                    .join(", ")}
+                                </div>
+                              )}
+                              {program.credits?.some((credit) => credit.role === "actor") && (
+                                <div className="text-muted-foreground">
+                                  {t("cast")}:{" "}
+                                  {program.credits
+                                    .filter((credit) => credit.role === "actor")
+                                    .map((credit) => (credit.character ? `${credit.name} (${credit.character})` : credit.name))
+                                    .join(", ")}
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                        )}
                       </Card>
                     );
                   })}
@@ -0,0 +1,110 @@
+import { Grid2x2, LayoutPanelTop, X } from 'lucide-react';
+import { Channel, Locale, MultiViewLayout } from '../../types/player';
+import { usePlayerTranslation } from '../../hooks/use-player-translation';
+import { cn } from '../../lib/utils';
+import MultiViewTile from './MultiViewTile';
+
+interface MultiViewProps {
+  layout: MultiViewLayout;
+  /** 每个画面的频道，空位为 null */
+  tiles: (Channel | null)[];
+  focusedIndex: number;
+  channels: Channel[];
+  onLayoutChange: (layout: MultiViewLayout) => void;
+  onFocus: (index: number) => void;
+  onPromote: (index: number) => void;
+  onAssign: (index: number, channel: Channel | null) => void;
+  onExit: () => void;
+  locale: Locale;
+}
+
+// 1+3 布局：第一个画面占上方两行，其余三个在下方
+const TILE_CLASSES: Record<MultiViewLayout, string[]> = {
+  '2x2': ['', '', '', ''],
+  '1+3': ['col-span-3 row-span-2', '', '', ''],
+};
+
+const MultiView = ({
+  layout,
+  tiles,
+  focusedIndex,
+  channels,
+  onLayoutChange,
+  onFocus,
+  onPromote,
+  onAssign,
+  onExit,
+  locale
+}: MultiViewProps) => {
+  const t = usePlayerTranslation(locale);
+
+  return (
+    <div className="flex h-full w-full flex-col bg-black">
+      {/* 布局切换 */}
+      <div className="flex items-center gap-1 px-2 py-1 text-white">
+        <button
+          onClick={() => onLayoutChange('2x2')}
+          title={t('layout2x2')}
+          className={cn("rounded p-1 hover:bg-white/20", layout === '2x2' && "bg-white/20")}
+        >
+          <Grid2x2 className="h-4 w-4" />
+        </button>
+        <button
+          onClick={() => onLayoutChange('1+3')}
+          title={t('layout1Plus3')}
+          className={cn("rounded p-1 hover:bg-white/20", layout === '1+3' && "bg-white/20")}
+        >
+          <LayoutPanelTop className="h-4 w-4" />
+        </button>
+        <span className="flex-1" />
+        <button onClick={onExit} title={t('exitMultiView')} className="rounded p-1 hover:bg-white/20">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className={cn("grid flex-1 gap-px", layout === '2x2' ? "grid-cols-2 grid-rows-2" : "grid-cols-3 grid-rows-3")}>
+        {tiles.map((channel, index) =>
+          channel ? (
+            <MultiViewTile
+              key={index}
+              channel={channel}
+              focused={index === focusedIndex}
+              onFocus={() => onFocus(index)}
+              onPromote={() => onPromote(index)}
+              onRemove={() => onAssign(index, null)}
+              className={TILE_CLASSES[layout][index]}
+              locale={locale}
+            />
+          ) : (
+            // 空位：选择频道，或聚焦后从频道列表选择
+            <div
+              key={index}
+              onClick={() => onFocus(index)}
+              className={cn(
+                "flex items-center justify-center bg-black",
+                index === focusedIndex ? "ring-2 ring-inset ring-primary" : "ring-1 ring-inset ring-border",
+                TILE_CLASSES[layout][index]
+              )}
+            >
+              <select
+                value=""
+                onChange={e => {
+                  const selected = channels.find(ch => ch.id === e.target.value);
+                  if (selected) onAssign(index, selected);
+                }}
+                className="max-w-[80%] rounded border border-border bg-card px-2 py-1 text-xs"
+              >
+                <option value="">{t('chooseChannel')}</option>
+                {channels.map(ch => (
+                  <option key={ch.id} value={ch.id}>{ch.name}</option>
+                ))}
+              </select>
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MultiView;
@@ -0,0 +1,134 @@
+import { useEffect, useRef, useState } from 'react';
+import { createPlayer } from '@rtp2httpd/mpegts.js';
+import { Maximize2, Volume2, X } from 'lucide-react';
+import { Channel, Locale } from '../../types/player';
+import { usePlayerTranslation } from '../../hooks/use-player-translation';
+import { getChannelWithSource } from '../../lib/m3u-parser';
+import { cn } from '../../lib/utils';
+
+interface MultiViewTileProps {
+  channel: Channel;
+  /** 焦点画面，只有它播放声音 */
+  focused: boolean;
+  onFocus: () => void;
+  /** 切换到该频道的单画面播放 */
+  onPromote: () => void;
+  onRemove: () => void;
+  className?: string;
+  locale: Locale;
+}
+
+const MultiViewTile = ({ channel, focused, onFocus, onPromote, onRemove, className, locale }: MultiViewTileProps) => {
+  const t = usePlayerTranslation(locale);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [sourceIndex, setSourceIndex] = useState(0);
+  // 画面在视口内且页面可见时才拉流解码
+  const [inView, setInView] = useState(true);
+  const [pageVisible, setPageVisible] = useState(() => document.visibilityState === 'visible');
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    setSourceIndex(0);
+    setError(false);
+  }, [channel.id]);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new IntersectionObserver(([entry]) => setInView(entry.isIntersecting));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => setPageVisible(document.visibilityState === 'visible');
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  const active = inView && pageVisible;
+
+  // 每个画面一个独立的播放器；不可见时销毁，释放连接和解码
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !active) return;
+
+    const player = createPlayer(video, {
+      // 多路同时播放时保留较少的回退缓冲，降低内存占用
+      bufferCleanupMaxBackward: 30,
+      bufferCleanupMinBackward: 10,
+    });
+    player.loadSegments([{ url: getChannelWithSource(channel, sourceIndex).url, duration: 0 }]);
+    video.play().catch(err => console.error('Play error:', err));
+
+    // 播放出错时切换到下一个源
+    player.on('error', error => {
+      console.warn(`Multi-view source ${sourceIndex + 1}/${channel.sources.length} of ${channel.name} failed:`, error.category, error.detail);
+      if (sourceIndex + 1 < channel.sources.length) {
+        setSourceIndex(sourceIndex + 1);
+      } else {
+        setError(true);
+      }
+    });
+
+    return () => {
+      player.destroy();
+    };
+  }, [channel, sourceIndex, active]);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.muted = !focused;
+    }
+  }, [focused]);
+
+  return (
+    <div
+      ref={containerRef}
+      onClick={onFocus}
+      onDoubleClick={onPromote}
+      className={cn(
+        "group relative overflow-hidden bg-black",
+        focused ? "ring-2 ring-inset ring-primary" : "ring-1 ring-inset ring-border",
+        className
+      )}
+    >
+      <video ref={videoRef} className="h-full w-full object-contain" playsInline muted={!focused} />
+
+      {error && (
+        <div className="absolute inset-0 flex items-center justify-center text-xs text-white/70">
+          {t('playbackError')}
+        </div>
+      )}
+
+      {/* 频道名称和操作 */}
+      <div className="absolute inset-x-0 top-0 flex items-center gap-1.5 bg-gradient-to-b from-black/70 to-transparent px-2 py-1 text-xs text-white">
+        {focused && <Volume2 className="h-3 w-3 shrink-0" />}
+        <span className="flex-1 truncate">{channel.name}</span>
+        <button
+          onClick={e => {
+            e.stopPropagation();
+            onPromote();
+          }}
+          title={t('fullView')}
+          className="rounded p-0.5 opacity-0 transition-opacity hover:bg-white/20 group-hover:opacity-100"
+        >
+          <Maximize2 className="h-3.5 w-3.5" />
+        </button>
+        <button
+          onClick={e => {
+            e.stopPropagation();
+            onRemove();
+          }}
+          title={t('removeFromMultiView')}
+          className="rounded p-0.5 opacity-0 transition-opacity hover:bg-white/20 group-hover:opacity-100"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MultiViewTile;
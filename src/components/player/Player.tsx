@@ -1,34 +1,107 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-import mpegts from '@rtp2httpd/mpegts.js';
-import { Channel, PlayerState, Locale, PlayMode } from '../../types/player';
+import { createPlayer } from '@rtp2httpd/mpegts.js';
+import { RotateCw } from 'lucide-react';
+import { Channel, EPGProgram, PlayerState, Locale, PlayMode } from '../../types/player';
 import { usePlayerTranslation } from '../../hooks/use-player-translation';
+import { translate } from '../../i18n/player';
+import { useStreamDiagnostics } from '../../hooks/use-stream-diagnostics';
+import { useLiveSync } from '../../hooks/use-live-sync';
+import { useTimeshift } from '../../hooks/use-timeshift';
 import { cn, formatDuration } from '../../lib/utils';
-import { saveLastChannelId, getForce16x9 } from '../../lib/player-storage';
+import { saveLastChannelId, getForce16x9, getCatchupTailOffset, getLiveTargetLatency, saveLiveTargetLatency, getTimeshiftWindow, saveTimeshiftWindow } from '../../lib/player-storage';
+import { buildCatchupSegments } from '../../lib/catchup';
+import { getChannelWithSource } from '../../lib/m3u-parser';
+import { INITIAL_RECOVERY_STATE, RecoveryState, StreamErrorKind, classifyStreamError, getRecoveryAction } from '../../lib/stream-recovery';
 import PlayerControls from './PlayerControls';
+import ProgramInfoBanner from './ProgramInfoBanner';
+import DiagnosticsPanel from './DiagnosticsPanel';
+import PlayerSettingsPanel from './PlayerSettingsPanel';
 
 interface PlayerProps {
   channel: Channel;
   state: PlayerState;
   updateState: (updates: Partial<PlayerState>) => void;
   locale: Locale;
+  /** 当前频道的节目单，用于节目信息横幅 */
+  programs?: EPGProgram[];
+  /** 频道号（从 1 开始） */
+  channelNumber?: number;
 }
 
-const Player = ({ channel, state, updateState, locale }: PlayerProps) => {
+const Player = ({ channel, state, updateState, locale, programs = [], channelNumber }: PlayerProps) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const playerRef = useRef<mpegts.Player | null>(null);
+  const playerRef = useRef<ReturnType<typeof createPlayer> | null>(null);
   const [duration, setDuration] = useState(0);
   const [currentTime, setCurrentTime] = useState(0);
   const [isBuffering, setIsBuffering] = useState(false);
+  // 当前使用的播放源（同一 tvg-id 的多个地址依次故障切换）
+  const [sourceIndex, setSourceIndex] = useState(0);
+  // 当前源已做的恢复尝试；递增 reloadToken 重新加载同一个源
+  const recoveryRef = useRef<RecoveryState>(INITIAL_RECOVERY_STATE);
+  const [reloadToken, setReloadToken] = useState(0);
+  // 所有恢复手段用尽后显示的错误
+  const [playbackError, setPlaybackError] = useState<StreamErrorKind | null>(null);
+  // 每次变化时显示节目信息横幅
+  const [infoBannerToken, setInfoBannerToken] = useState(0);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [liveTargetLatency, setLiveTargetLatency] = useState(() => getLiveTargetLatency());
+  const [timeshiftWindow, setTimeshiftWindow] = useState(() => getTimeshiftWindow());
+  // 时移播放的起点（缓存分片的开始时间，毫秒），null 表示播放直播
+  const [timeshiftStart, setTimeshiftStart] = useState<number | null>(null);
+  // 直播暂停时的位置，继续播放时从时移缓存开始
+  const [pausedAt, setPausedAt] = useState<number | null>(null);
   const t = usePlayerTranslation(locale);
+  const sourceUrl = getChannelWithSource(channel, sourceIndex).url;
+  // 播放器按播放地址重新加载；刷新播放列表只改了名称、分组或回看模板时不重新开始播放
+  const channelRef = useRef(channel);
+  channelRef.current = channel;
+  const { diagnostics, reportReconnect } = useStreamDiagnostics(videoRef, {
+    channelKey: channel.id,
+    channelName: channel.name,
+    url: sourceUrl,
+    isLive: state.playMode === 'live',
+    visible: showDiagnostics,
+  });
+  // 直播延迟控制：落后时略微加速追赶，落后太多直接跳到直播边缘
+  const { latency, atLiveEdge, jumpToLive } = useLiveSync(videoRef, {
+    enabled: state.playMode === 'live' && timeshiftStart === null,
+    targetLatency: liveTargetLatency,
+  });
+  // 直播时移缓存（回看由服务端提供，不需要）
+  const { bufferWindow, findSegmentStart, slice: sliceTimeshift } = useTimeshift(
+    state.playMode === 'live' ? sourceUrl : null,
+    timeshiftWindow
+  );
   
   // 保存最后播放的频道
   useEffect(() => {
     saveLastChannelId(channel.id);
   }, [channel.id]);
   
+  // 切换频道时从第一个源开始，并显示节目信息
+  useEffect(() => {
+    setSourceIndex(0);
+    recoveryRef.current = INITIAL_RECOVERY_STATE;
+    setPlaybackError(null);
+    setInfoBannerToken(token => token + 1);
+  }, [channel.id]);
+  
+  // 切换频道或播放模式时回到直播
+  useEffect(() => {
+    setTimeshiftStart(null);
+    setPausedAt(null);
+  }, [channel.id, state.playMode]);
+  
+  // 播放/暂停、音量和静音由下面单独的 effect 控制，创建播放器时只读取当前值，
+  // 暂停或调节音量不会重建播放器（时移时也不会重建缓存分片）
+  const playbackRef = useRef({ isPlaying: state.isPlaying, volume: state.volume, isMuted: state.isMuted });
+  playbackRef.current = { isPlaying: state.isPlaying, volume: state.volume, isMuted: state.isMuted };
+  
   // 初始化/销毁播放器
   const initPlayer = useCallback(() => {
-    if (!videoRef.current) return;
+    const video = videoRef.current;
+    if (!video) return;
     
     // 销毁现有播放器
     if (playerRef.current) {
@@ -36,58 +109,126 @@ const Player = ({ channel, state, updateState, locale }: PlayerProps) => {
       playerRef.current = null;
     }
     
-    // 构建播放URL（支持回看）
-    let playUrl = channel.url;
-    if (state.playMode === 'catchup') {
-      // 拼接回看时间参数（适配rtp2httpd的catchup格式）
-      const catchupTime = Math.floor(state.currentTime.getTime() / 1000);
-      playUrl = `${playUrl}?catchup=${catchupTime}`;
-    }
+    const channel = channelRef.current;
+    const source = getChannelWithSource(channel, sourceIndex);
     
-    // 创建新播放器
-    const player = mpegts.createPlayer({
-      type: 'm2ts',
-      isLive: state.playMode === 'live',
-      url: playUrl,
-    });
+    // 构建回看分片（按频道的 catchup / catchup-source 模板生成）
+    const catchupSegments = state.playMode === 'catchup'
+      ? buildCatchupSegments(source, state.currentTime, getCatchupTailOffset())
+      : [];
+    
+    // 时移：从本地缓存的分片播放
+    const timeshift = state.playMode === 'live' && timeshiftStart !== null ? sliceTimeshift(timeshiftStart) : null;
+    const timeshiftUrl = timeshift ? URL.createObjectURL(timeshift.blob) : null;
+    if (timeshiftUrl) {
+      // 时移位置 = 起点 + 播放进度，进度从 0 开始
+      setCurrentTime(0);
+    }
     
-    player.attachMediaElement(videoRef.current);
-    player.load();
+    // 创建新播放器（不支持回看的频道回退到直播）；直播延迟由 useLiveSync 控制
+    const player = createPlayer(video, { liveSync: false });
+    if (catchupSegments.length > 0) {
+      player.loadSegments(catchupSegments);
+    } else if (timeshiftUrl) {
+      player.loadSegments([{ url: timeshiftUrl }]);
+    } else {
+      player.loadSegments([{ url: source.url, duration: 0 }]);
+    }
     
     // 播放控制
-    if (state.isPlaying) {
-      player.play().catch(err => console.error('Play error:', err));
+    if (playbackRef.current.isPlaying) {
+      video.play().catch(err => console.error('Play error:', err));
     }
     
     // 事件监听
-    player.on('timeupdate', () => {
-      if (videoRef.current) {
-        setCurrentTime(videoRef.current.currentTime);
-        setDuration(videoRef.current.duration || 0);
+    const handleTimeUpdate = () => {
+      setCurrentTime(video.currentTime);
+      setDuration(video.duration || 0);
+    };
+    const handleWaiting = () => setIsBuffering(true);
+    const handlePlaying = () => {
+      setIsBuffering(false);
+      // 恢复播放后重新计算重试次数
+      recoveryRef.current = INITIAL_RECOVERY_STATE;
+    };
+    const handleEnded = () => {
+      // 时移播放到缓存末尾时，从后续缓存接着播放
+      if (timeshift) {
+        setTimeshiftStart(findSegmentStart(timeshift.end));
+        return;
+      }
+      updateState({ isPlaying: false });
+    };
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    video.addEventListener('waiting', handleWaiting);
+    video.addEventListener('playing', handlePlaying);
+    video.addEventListener('ended', handleEnded);
+    
+    // 回看跳转到未缓冲的位置时，从该时间重新生成分片
+    player.on('seek-needed', seconds => {
+      if (state.playMode === 'catchup') {
+        updateState({ currentTime: new Date(state.currentTime.getTime() + seconds * 1000) });
       }
     });
     
-    player.on('waiting', () => setIsBuffering(true));
-    player.on('playing', () => setIsBuffering(false));
-    player.on('ended', () => {
-      updateState({ isPlaying: false });
+    // 播放出错时：网络错误按指数退避重试，媒体错误重置 video 元素，仍失败则切换到下一个源
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    player.on('error', error => {
+      console.warn(`Source ${sourceIndex + 1}/${channel.sources.length} of ${channel.name} failed:`, error.category, error.detail, error.info);
+      const { action, state: next } = getRecoveryAction(
+        recoveryRef.current,
+        classifyStreamError(error),
+        sourceIndex,
+        channel.sources.length
+      );
+      recoveryRef.current = next;
+      
+      switch (action.type) {
+        case 'retry':
+          reportReconnect();
+          retryTimer = setTimeout(() => setReloadToken(token => token + 1), action.delayMs);
+          break;
+        case 'reloadMedia':
+          reportReconnect();
+          player.destroy();
+          playerRef.current = null;
+          video.removeAttribute('src');
+          video.load();
+          setReloadToken(token => token + 1);
+          break;
+        case 'switchSource':
+          reportReconnect();
+          setSourceIndex(action.sourceIndex);
+          break;
+        case 'fail':
+          setIsBuffering(false);
+          setPlaybackError(action.kind);
+          break;
+      }
     });
     
     playerRef.current = player;
     
     // 音量控制
-    if (videoRef.current) {
-      videoRef.current.volume = state.volume / 100;
-      videoRef.current.muted = state.isMuted;
-    }
+    video.volume = playbackRef.current.volume / 100;
+    video.muted = playbackRef.current.isMuted;
     
     return () => {
+      clearTimeout(retryTimer);
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+      video.removeEventListener('waiting', handleWaiting);
+      video.removeEventListener('playing', handlePlaying);
+      video.removeEventListener('ended', handleEnded);
       if (playerRef.current) {
         playerRef.current.destroy();
         playerRef.current = null;
       }
+      if (timeshiftUrl) {
+        URL.revokeObjectURL(timeshiftUrl);
+      }
+      timeshift?.release();
     };
-  }, [channel.url, state.playMode, state.currentTime, state.isPlaying, state.volume, state.isMuted, updateState]);
+  }, [sourceUrl, sourceIndex, reloadToken, timeshiftStart, sliceTimeshift, findSegmentStart, state.playMode, state.currentTime, updateState, reportReconnect]);
   
   // 频道/播放模式变化时重新初始化播放器
   useEffect(() => {
@@ -97,11 +238,11 @@ const Player = ({ channel, state, updateState, locale }: PlayerProps) => {
   
   // 播放/暂停控制
   useEffect(() => {
-    if (playerRef.current) {
+    if (videoRef.current) {
       if (state.isPlaying) {
-        playerRef.current.play().catch(err => console.error('Play error:', err));
+        videoRef.current.play().catch(err => console.error('Play error:', err));
       } else {
-        playerRef.current.pause();
+        videoRef.current.pause();
       }
     }
   }, [state.isPlaying]);
@@ -120,8 +261,52 @@ const Player = ({ channel, state, updateState, locale }: PlayerProps) => {
     }
   }, [state.isMuted]);
   
+  // 手动重试：从第一个源重新开始
+  const handleRetry = () => {
+    recoveryRef.current = INITIAL_RECOVERY_STATE;
+    setPlaybackError(null);
+    setSourceIndex(0);
+    setReloadToken(token => token + 1);
+  };
+  
+  // 直播时可在时移缓存内暂停和回退
+  const canTimeshift = state.playMode === 'live' && bufferWindow !== null;
+  // 当前播放位置（毫秒）
+  const timeshiftPosition = pausedAt ?? (timeshiftStart !== null ? timeshiftStart + currentTime * 1000 : null);
+  
+  const goLive = () => {
+    setTimeshiftStart(null);
+    setPausedAt(null);
+    if (!state.isPlaying) {
+      updateState({ isPlaying: true });
+    }
+  };
+  
+  // 跳到时移缓存中的某个时间，比最新缓存分片还新时回到直播
+  const seekTimeshift = (position: number) => {
+    const start = findSegmentStart(position);
+    if (start === null) {
+      goLive();
+      return;
+    }
+    setTimeshiftStart(start);
+    setPausedAt(null);
+    if (!state.isPlaying) {
+      updateState({ isPlaying: true });
+    }
+  };
+  
   // 处理播放控制事件
   const handlePlayPause = () => {
+    if (canTimeshift) {
+      if (state.isPlaying) {
+        // 记录暂停位置，继续时从缓存播放
+        setPausedAt(timeshiftPosition ?? Date.now());
+      } else if (pausedAt !== null) {
+        seekTimeshift(pausedAt);
+        return;
+      }
+    }
     updateState({ isPlaying: !state.isPlaying });
   };
   
@@ -137,12 +322,37 @@ const Player = ({ channel, state, updateState, locale }: PlayerProps) => {
   };
   
   const handleSeek = (time: number) => {
-    if (videoRef.current) {
-      videoRef.current.currentTime = time;
+    if (canTimeshift) {
+      seekTimeshift(bufferWindow.start + time * 1000);
+      return;
+    }
+    if (playerRef.current) {
+      playerRef.current.seek(time);
       setCurrentTime(time);
     }
   };
   
+  const handleJumpToLive = () => {
+    if (timeshiftPosition !== null) {
+      goLive();
+      return;
+    }
+    jumpToLive();
+    if (!state.isPlaying) {
+      updateState({ isPlaying: true });
+    }
+  };
+  
+  const handleLiveTargetLatencyChange = (latency: number) => {
+    setLiveTargetLatency(latency);
+    saveLiveTargetLatency(latency);
+  };
+  
+  const handleTimeshiftWindowChange = (minutes: number) => {
+    setTimeshiftWindow(minutes);
+    saveTimeshiftWindow(minutes);
+  };
+  
   const handleModeToggle = () => {
     updateState({
       playMode: state.playMode === 'live' ? 'catchup' : 'live',
@@ -175,13 +385,59 @@ const Player = ({ channel, state, updateState, locale }: PlayerProps) => {
           </div>
         )}
         
+        {/* 播放错误，恢复手段用尽后由用户手动重试 */}
+        {playbackError && (
+          <div className="absolute inset-0 z-20 flex flex-col items-center justify-center gap-3 bg-black/70 px-6 text-center text-white">
+            <div className="text-sm">{translate(locale, `${playbackError}Error`)}</div>
+            <button
+              onClick={handleRetry}
+              className="flex items-center gap-1.5 rounded bg-white/20 px-3 py-1.5 text-sm hover:bg-white/30 transition-colors"
+            >
+              <RotateCw size={14} />
+              {translate(locale, 'retry')}
+            </button>
+          </div>
+        )}
+        
+        {/* 节目信息横幅，回看时按 回看起点 + 播放进度 计算当前节目 */}
+        <ProgramInfoBanner
+          channel={channel}
+          channelNumber={channelNumber}
+          programs={programs}
+          position={state.playMode === 'catchup' ? new Date(state.currentTime.getTime() + currentTime * 1000) : new Date(timeshiftPosition ?? Date.now())}
+          playMode={state.playMode}
+          showToken={infoBannerToken}
+          locale={locale}
+        />
+        
+        {/* 播放诊断 */}
+        {showDiagnostics && (
+          <DiagnosticsPanel
+            diagnostics={diagnostics}
+            onClose={() => setShowDiagnostics(false)}
+            locale={locale}
+          />
+        )}
+        
+        {/* 播放设置 */}
+        {showSettings && (
+          <PlayerSettingsPanel
+            liveTargetLatency={liveTargetLatency}
+            onLiveTargetLatencyChange={handleLiveTargetLatencyChange}
+            timeshiftWindow={timeshiftWindow}
+            onTimeshiftWindowChange={handleTimeshiftWindowChange}
+            onClose={() => setShowSettings(false)}
+            locale={locale}
+          />
+        )}
+        
         {/* 播放器控制栏 */}
         <PlayerControls
           isPlaying={state.isPlaying}
           isMuted={state.isMuted}
           volume={state.volume}
-          currentTime={currentTime}
-          duration={duration}
+          currentTime={canTimeshift ? ((timeshiftPosition ?? bufferWindow.end) - bufferWindow.start) / 1000 : currentTime}
+          duration={canTimeshift ? (bufferWindow.end - bufferWindow.start) / 1000 : duration}
           playMode={state.playMode}
           onPlayPause={handlePlayPause}
           onVolumeChange={handleVolumeChange}
@@ -190,6 +446,14 @@ const Player = ({ channel, state, updateState, locale }: PlayerProps) => {
           onModeToggle={handleModeToggle}
           t={t}
           channelName={channel.name}
+          onShowInfo={() => setInfoBannerToken(token => token + 1)}
+          onToggleDiagnostics={() => setShowDiagnostics(show => !show)}
+          onToggleSettings={() => setShowSettings(show => !show)}
+          locale={locale}
+          atLiveEdge={atLiveEdge && timeshiftPosition === null}
+          liveLatency={canTimeshift && timeshiftPosition !== null ? (bufferWindow.end - timeshiftPosition) / 1000 : latency}
+          canRewind={canTimeshift}
+          onJumpToLive={handleJumpToLive}
         />
       </div>
     </div>
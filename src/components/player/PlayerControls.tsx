@@ -1,8 +1,9 @@
 import { useState, useEffect } from 'react';
-import { Play, Pause, Volume2, VolumeX, Clock, Live, SkipBack, Maximize } from 'lucide-react';
+import { Play, Pause, Volume2, VolumeX, Clock, Live, SkipBack, Maximize, Activity, Settings } from 'lucide-react';
 import { cn, formatDuration } from '../../lib/utils';
-import { PlayMode } from '../../types/player';
+import { Locale, PlayMode } from '../../types/player';
 import { TranslationKey } from '../../lib/locale';
+import { translate } from '../../i18n/player';
 
 interface PlayerControlsProps {
   isPlaying: boolean;
@@ -18,6 +19,22 @@ interface PlayerControlsProps {
   onModeToggle: () => void;
   t: (key: TranslationKey) => string;
   channelName: string;
+  /** 点击频道名称时显示节目信息 */
+  onShowInfo?: () => void;
+  /** 打开/关闭播放诊断面板 */
+  onToggleDiagnostics?: () => void;
+  /** 打开/关闭播放设置面板 */
+  onToggleSettings?: () => void;
+  /** 设置按钮的文案来自 i18n/player */
+  locale: Locale;
+  /** 直播时是否处于直播边缘 */
+  atLiveEdge?: boolean;
+  /** 直播延迟（秒） */
+  liveLatency?: number | null;
+  /** 点击 LIVE 标记回到直播边缘 */
+  onJumpToLive?: () => void;
+  /** 直播时可在时移缓存内回退，进度条表示缓存范围 */
+  canRewind?: boolean;
 }
 
 const PlayerControls = ({
@@ -33,7 +50,15 @@ const PlayerControls = ({
   onSeek,
   onModeToggle,
   t,
-  channelName
+  channelName,
+  onShowInfo,
+  onToggleDiagnostics,
+  onToggleSettings,
+  locale,
+  atLiveEdge = true,
+  liveLatency = null,
+  onJumpToLive,
+  canRewind = false
 }: PlayerControlsProps) => {
   const [showControls, setShowControls] = useState(true);
   const [hovered, setHovered] = useState(false);
@@ -79,10 +104,37 @@ const PlayerControls = ({
     >
       {/* 频道名称 */}
       <div className="px-4 py-2 text-white text-sm font-medium">
-        {channelName}
-        <span className="ml-2 text-xs opacity-70">
-          {playMode === 'live' ? t('live') : `${t('catchup')} (${formatDuration(currentTime)})`}
-        </span>
+        <button
+          onClick={onShowInfo}
+          className="hover:underline"
+          title={t('programInfo')}
+        >
+          {channelName}
+        </button>
+        {playMode === 'live' ? (
+          // LIVE 标记：红色表示在直播边缘，落后时可点击回到直播
+          <button
+            onClick={onJumpToLive}
+            disabled={atLiveEdge}
+            title={atLiveEdge
+              ? liveLatency !== null ? `${t('liveLatency')}: ${liveLatency.toFixed(1)}s` : t('live')
+              : t('jumpToLive')}
+            className={cn(
+              "ml-2 inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-xs font-semibold transition-colors",
+              atLiveEdge ? "bg-red-600" : "bg-white/20 text-white/80 hover:bg-white/30"
+            )}
+          >
+            <span className={cn("h-1.5 w-1.5 rounded-full", atLiveEdge ? "bg-white" : "bg-white/60")} />
+            {t('live')}
+            {!atLiveEdge && liveLatency !== null && (
+              <span className="font-normal tabular-nums">-{formatDuration(liveLatency)}</span>
+            )}
+          </button>
+        ) : (
+          <span className="ml-2 text-xs opacity-70">
+            {`${t('catchup')} (${formatDuration(currentTime)})`}
+          </span>
+        )}
       </div>
       
       {/* 控制栏 */}
@@ -164,8 +216,8 @@ const PlayerControls = ({
               {t(playMode)}
             </button>
             
-            {/* 回看偏移 */}
-            {playMode === 'catchup' && (
+            {/* 回看/时移偏移 */}
+            {(playMode === 'catchup' || canRewind) && (
               <button 
                 onClick={() => onSeek(Math.max(0, currentTime - 300))}
                 className="flex items-center gap-1 px-2 py-1 text-xs bg-white/20 hover:bg-white/30 rounded transition-colors"
@@ -176,7 +228,27 @@ const PlayerControls = ({
             )}
           </div>
           
-          <div>
+          <div className="flex items-center gap-2">
+            {onToggleDiagnostics && (
+              <button
+                className="p-1 hover:bg-white/20 rounded-full transition-colors"
+                onClick={onToggleDiagnostics}
+                aria-label={t('diagnostics')}
+                title={t('diagnostics')}
+              >
+                <Activity size={20} />
+              </button>
+            )}
+            {onToggleSettings && (
+              <button
+                className="p-1 hover:bg-white/20 rounded-full transition-colors"
+                onClick={onToggleSettings}
+                aria-label={translate(locale, 'settings')}
+                title={translate(locale, 'settings')}
+              >
+                <Settings size={20} />
+              </button>
+            )}
             <button 
               className="p-1 hover:bg-white/20 rounded-full transition-colors"
               onClick={() => {
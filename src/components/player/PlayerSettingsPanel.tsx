@@ -0,0 +1,103 @@
+import { X } from 'lucide-react';
+import { Locale } from '../../types/player';
+import { usePlayerTranslation } from '../../hooks/use-player-translation';
+import { translate } from '../../i18n/player';
+import { MAX_LIVE_TARGET_LATENCY, MIN_LIVE_TARGET_LATENCY } from '../../lib/live-sync';
+import { MAX_TIMESHIFT_WINDOW_MINUTES } from '../../lib/timeshift-buffer';
+
+interface PlayerSettingsPanelProps {
+  /** 直播目标延迟（秒） */
+  liveTargetLatency: number;
+  onLiveTargetLatencyChange: (latency: number) => void;
+  /** 时移缓存时长（分钟），0 表示关闭 */
+  timeshiftWindow: number;
+  onTimeshiftWindowChange: (minutes: number) => void;
+  onClose: () => void;
+  locale: Locale;
+}
+
+interface NumberSettingProps {
+  label: string;
+  hint: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}
+
+// 失去焦点或按回车时保存；无效值（空、超出范围）恢复为当前值
+// 不在输入过程中保存，避免修改时移时长时每输入一位就重建缓存
+const NumberSetting = ({ label, hint, value, min, max, step, onChange }: NumberSettingProps) => (
+  <label className="block">
+    <span className="block">{label}</span>
+    <input
+      type="number"
+      min={min}
+      max={max}
+      step={step}
+      defaultValue={value}
+      onBlur={e => {
+        const next = parseFloat(e.target.value);
+        if (Number.isFinite(next) && next >= min && next <= max) {
+          if (next !== value) onChange(next);
+        } else {
+          e.target.value = String(value);
+        }
+      }}
+      onKeyDown={e => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+      }}
+      className="mt-1 w-full rounded bg-white/10 px-2 py-1 text-white"
+    />
+    <span className="mt-0.5 block opacity-60">{hint}</span>
+  </label>
+);
+
+const PlayerSettingsPanel = ({
+  liveTargetLatency,
+  onLiveTargetLatencyChange,
+  timeshiftWindow,
+  onTimeshiftWindowChange,
+  onClose,
+  locale,
+}: PlayerSettingsPanelProps) => {
+  const t = usePlayerTranslation(locale);
+
+  return (
+    <div
+      className="absolute right-3 bottom-20 z-30 w-64 rounded-md bg-black/80 p-3 text-xs text-white"
+      onClick={e => e.stopPropagation()}
+    >
+      <div className="mb-2 flex items-center justify-between">
+        <span className="font-medium">{translate(locale, 'settings')}</span>
+        <button onClick={onClose} title={t('close')} className="rounded p-1 hover:bg-white/20">
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        <NumberSetting
+          label={translate(locale, 'liveTargetLatency')}
+          hint={translate(locale, 'liveTargetLatencyHint')}
+          value={liveTargetLatency}
+          min={MIN_LIVE_TARGET_LATENCY}
+          max={MAX_LIVE_TARGET_LATENCY}
+          step={0.5}
+          onChange={onLiveTargetLatencyChange}
+        />
+        <NumberSetting
+          label={translate(locale, 'timeshiftWindow')}
+          hint={translate(locale, 'timeshiftWindowHint')}
+          value={timeshiftWindow}
+          min={0}
+          max={MAX_TIMESHIFT_WINDOW_MINUTES}
+          step={1}
+          onChange={onTimeshiftWindowChange}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default PlayerSettingsPanel;
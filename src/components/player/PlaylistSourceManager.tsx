@@ -0,0 +1,301 @@
+import { useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, FileText, FileUp, Link, Trash2, Upload, X } from 'lucide-react';
+import { Locale, PlaylistSource } from '../../types/player';
+import { usePlayerTranslation } from '../../hooks/use-player-translation';
+import { createPlaylistSource, importLocalFiles } from '../../lib/playlist-sources';
+import { getRefreshNotifications, saveRefreshNotifications } from '../../lib/player-storage';
+import { cn } from '../../lib/utils';
+
+interface PlaylistSourceManagerProps {
+  sources: PlaylistSource[];
+  /** 保存修改后的源列表（按优先级排序） */
+  onApply: (sources: PlaylistSource[]) => void;
+  onClose: () => void;
+  locale: Locale;
+}
+
+const inputClassName =
+  'w-full rounded border border-border bg-background px-2 py-1.5 text-sm focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary';
+
+const PlaylistSourceManager = ({ sources, onApply, onClose, locale }: PlaylistSourceManagerProps) => {
+  const t = usePlayerTranslation(locale);
+  // 编辑中的副本，点击保存后才生效
+  const [draft, setDraft] = useState<PlaylistSource[]>(sources);
+  const [adding, setAdding] = useState<'url' | 'text' | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newValue, setNewValue] = useState('');
+  const [newEpgUrl, setNewEpgUrl] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const guideInputRef = useRef<HTMLInputElement>(null);
+  // 正在为哪个源选择节目单文件
+  const guideTargetRef = useRef<string | null>(null);
+  const [notifyChanges, setNotifyChanges] = useState(() => getRefreshNotifications());
+
+  const updateSource = (id: string, updates: Partial<PlaylistSource>) => {
+    setDraft(prev => prev.map(source => (source.id === id ? { ...source, ...updates } : source)));
+  };
+
+  const moveSource = (index: number, offset: -1 | 1) => {
+    setDraft(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const resetForm = () => {
+    setAdding(null);
+    setNewName('');
+    setNewValue('');
+    setNewEpgUrl('');
+  };
+
+  const handleAdd = () => {
+    const value = newValue.trim();
+    if (!adding || !value) return;
+    const source = createPlaylistSource({
+      name: newName.trim() || (adding === 'url' ? value : t('playlistContent')),
+      kind: adding,
+      url: adding === 'url' ? value : undefined,
+      content: adding === 'text' ? newValue : undefined,
+      epgUrl: newEpgUrl.trim() || undefined,
+      enabled: true,
+    });
+    setDraft(prev => [...prev, source]);
+    resetForm();
+  };
+
+  // 文件保存到 IndexedDB，刷新页面后仍可使用
+  const handleUpload = async (input: HTMLInputElement, guideTargetId?: string) => {
+    const files = Array.from(input.files || []);
+    input.value = '';
+    if (files.length === 0) return;
+    try {
+      setDraft(await importLocalFiles(files, draft, guideTargetId));
+    } catch (err) {
+      console.error('Failed to import files:', err);
+    }
+  };
+
+  const hasEnabled = draft.some(source => source.enabled);
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-96 max-w-[calc(100vw-1rem)] rounded-md border border-border bg-card p-3 shadow-lg z-50">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium">{t('playlistSources')}</h4>
+        <button onClick={onClose} className="rounded p-0.5 hover:bg-muted transition-colors">
+          <X className="h-4 w-4 text-muted-foreground" />
+        </button>
+      </div>
+
+      {/* 源列表：越靠前优先级越高 */}
+      <div className="space-y-2 max-h-80 overflow-y-auto">
+        {draft.map((source, index) => (
+          <div
+            key={source.id}
+            className={cn('rounded border border-border p-2 space-y-1.5', !source.enabled && 'opacity-60')}
+          >
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={source.enabled}
+                onChange={e => updateSource(source.id, { enabled: e.target.checked })}
+              />
+              {source.kind === 'url' ? (
+                <Link className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+              ) : (
+                <FileText className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+              )}
+              <input
+                value={source.name}
+                onChange={e => updateSource(source.id, { name: e.target.value })}
+                aria-label={t('sourceName')}
+                className="flex-1 min-w-0 bg-transparent text-sm focus:outline-none"
+              />
+              <button
+                onClick={() => {
+                  guideTargetRef.current = source.id;
+                  guideInputRef.current?.click();
+                }}
+                title={t('importGuideFile')}
+                className="rounded p-0.5 hover:bg-muted"
+              >
+                <FileUp className="h-3.5 w-3.5" />
+              </button>
+              <button
+                onClick={() => moveSource(index, -1)}
+                disabled={index === 0}
+                title={t('moveUp')}
+                className="rounded p-0.5 hover:bg-muted disabled:opacity-30"
+              >
+                <ArrowUp className="h-3.5 w-3.5" />
+              </button>
+              <button
+                onClick={() => moveSource(index, 1)}
+                disabled={index === draft.length - 1}
+                title={t('moveDown')}
+                className="rounded p-0.5 hover:bg-muted disabled:opacity-30"
+              >
+                <ArrowDown className="h-3.5 w-3.5" />
+              </button>
+              <button
+                onClick={() => setDraft(prev => prev.filter(other => other.id !== source.id))}
+                title={t('removeSource')}
+                className="rounded p-0.5 hover:bg-muted text-destructive"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+            {source.kind === 'url' && (
+              <input
+                type="url"
+                value={source.url || ''}
+                onChange={e => updateSource(source.id, { url: e.target.value })}
+                placeholder={t('playlistUrl')}
+                className={inputClassName}
+              />
+            )}
+            {source.epgFileId ? (
+              <div className="flex items-center gap-1 rounded bg-muted px-2 py-1 text-xs">
+                <FileText className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                <span className="flex-1 truncate">{source.epgFileName}</span>
+                <button
+                  onClick={() => updateSource(source.id, { epgFileId: undefined, epgFileName: undefined })}
+                  title={t('removeGuideFile')}
+                  className="rounded p-0.5 hover:bg-background"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ) : (
+              <input
+                type="url"
+                value={source.epgUrl || ''}
+                onChange={e => updateSource(source.id, { epgUrl: e.target.value || undefined })}
+                placeholder={t('epgUrlOptional')}
+                className={inputClassName}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* 添加新源 */}
+      {adding ? (
+        <div className="mt-2 space-y-1.5 rounded border border-dashed border-border p-2">
+          <input
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            placeholder={t('sourceName')}
+            className={inputClassName}
+          />
+          {adding === 'url' ? (
+            <input
+              type="url"
+              value={newValue}
+              onChange={e => setNewValue(e.target.value)}
+              placeholder="https://example.com/playlist.m3u"
+              className={inputClassName}
+            />
+          ) : (
+            <textarea
+              value={newValue}
+              onChange={e => setNewValue(e.target.value)}
+              placeholder="#EXTM3U"
+              rows={4}
+              className={cn(inputClassName, 'font-mono text-xs')}
+            />
+          )}
+          <input
+            type="url"
+            value={newEpgUrl}
+            onChange={e => setNewEpgUrl(e.target.value)}
+            placeholder={t('epgUrlOptional')}
+            className={inputClassName}
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={resetForm}
+              className="flex-1 rounded bg-muted px-2 py-1.5 text-xs text-muted-foreground hover:bg-muted/80"
+            >
+              {t('cancel')}
+            </button>
+            <button
+              onClick={handleAdd}
+              disabled={!newValue.trim()}
+              className="flex-1 rounded bg-primary px-2 py-1.5 text-xs text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+            >
+              {t('add')}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="mt-2 flex gap-2">
+          <button
+            onClick={() => setAdding('url')}
+            className="flex flex-1 items-center justify-center gap-1 rounded bg-muted px-2 py-1.5 text-xs hover:bg-muted/80"
+          >
+            <Link className="h-3.5 w-3.5" />
+            {t('addUrlSource')}
+          </button>
+          <button
+            onClick={() => setAdding('text')}
+            className="flex flex-1 items-center justify-center gap-1 rounded bg-muted px-2 py-1.5 text-xs hover:bg-muted/80"
+          >
+            <FileText className="h-3.5 w-3.5" />
+            {t('addTextSource')}
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex flex-1 items-center justify-center gap-1 rounded bg-muted px-2 py-1.5 text-xs hover:bg-muted/80"
+          >
+            <Upload className="h-3.5 w-3.5" />
+            {t('uploadPlaylist')}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept=".m3u,.m3u8,.xml,.gz,audio/x-mpegurl,application/vnd.apple.mpegurl,text/plain"
+            className="hidden"
+            onChange={e => handleUpload(e.target)}
+          />
+        </div>
+      )}
+
+      <input
+        ref={guideInputRef}
+        type="file"
+        accept=".xml,.xmltv,.gz,application/xml,text/xml,application/gzip"
+        className="hidden"
+        onChange={e => handleUpload(e.target, guideTargetRef.current || undefined)}
+      />
+
+      <label className="mt-2 flex items-center gap-2 text-xs text-muted-foreground">
+        <input
+          type="checkbox"
+          checked={notifyChanges}
+          onChange={e => {
+            setNotifyChanges(e.target.checked);
+            saveRefreshNotifications(e.target.checked);
+          }}
+        />
+        {t('notifyPlaylistChanges')}
+      </label>
+
+      {!hasEnabled && <p className="mt-2 text-xs text-destructive">{t('noEnabledSources')}</p>}
+
+      <button
+        onClick={() => onApply(draft)}
+        disabled={!hasEnabled}
+        className="mt-2 w-full rounded bg-primary px-2 py-1.5 text-xs text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+      >
+        {t('applySources')}
+      </button>
+    </div>
+  );
+};
+
+export default PlaylistSourceManager;
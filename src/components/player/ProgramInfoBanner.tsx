@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react';
+import { Channel, EPGProgram, Locale, PlayMode } from '../../types/player';
+import { usePlayerTranslation } from '../../hooks/use-player-translation';
+import { getNowNext, getProgramTitle, pickLocalizedText } from '../../lib/epg-parser';
+import { cn } from '../../lib/utils';
+
+/** 横幅显示时长 */
+const BANNER_DURATION_MS = 5000;
+
+interface ProgramInfoBannerProps {
+  channel: Channel;
+  /** 频道号（从 1 开始） */
+  channelNumber?: number;
+  /** 该频道的节目单，按开始时间排序 */
+  programs: EPGProgram[];
+  /** 当前播放位置的绝对时间，回看时为 streamStartTime + currentVideoTime */
+  position: Date;
+  playMode: PlayMode;
+  /** 每次变化时显示横幅（换台、按信息键） */
+  showToken: number;
+  locale: Locale;
+}
+
+const ProgramInfoBanner = ({
+  channel,
+  channelNumber,
+  programs,
+  position,
+  playMode,
+  showToken,
+  locale
+}: ProgramInfoBannerProps) => {
+  const t = usePlayerTranslation(locale);
+  const [visible, setVisible] = useState(false);
+
+  // 显示一段时间后自动隐藏
+  useEffect(() => {
+    setVisible(true);
+    const timer = setTimeout(() => setVisible(false), BANNER_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [showToken]);
+
+  const { current, next } = getNowNext(programs, position);
+  const progress = current
+    ? (position.getTime() - current.start.getTime()) / (current.end.getTime() - current.start.getTime())
+    : 0;
+  const description = current && pickLocalizedText(current.descriptions, locale);
+
+  const formatTime = (date: Date) =>
+    date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div
+      role="status"
+      className={cn(
+        "pointer-events-none absolute inset-x-0 top-0 z-20 bg-gradient-to-b from-black/85 to-transparent px-4 pt-3 pb-8 text-white transition-opacity duration-300",
+        visible ? "opacity-100" : "opacity-0"
+      )}
+    >
+      <div className="flex items-start gap-3">
+        {channel.logo && (
+          <img
+            src={channel.logo}
+            alt={channel.name}
+            className="h-12 w-12 shrink-0 rounded bg-white/10 object-contain"
+            onError={(e) => {
+              e.currentTarget.style.display = 'none';
+            }}
+          />
+        )}
+        <div className="min-w-0 flex-1">
+          {/* 频道号、名称和播放模式 */}
+          <div className="flex items-center gap-2">
+            {channelNumber !== undefined && (
+              <span className="text-lg font-semibold tabular-nums">{channelNumber}</span>
+            )}
+            <span className="truncate text-lg font-semibold">{channel.name}</span>
+            <span
+              className={cn(
+                "shrink-0 rounded px-1.5 py-0.5 text-[10px] font-medium",
+                playMode === 'live' ? "bg-red-600" : "bg-primary"
+              )}
+            >
+              {playMode === 'live' ? t('live') : t('catchup')}
+            </span>
+          </div>
+
+          {/* 当前节目 */}
+          {current ? (
+            <>
+              <div className="mt-1 flex items-baseline gap-2 text-sm">
+                <span className="shrink-0 tabular-nums opacity-70">
+                  {formatTime(current.start)} - {formatTime(current.end)}
+                </span>
+                <span className="truncate font-medium">{getProgramTitle(current, locale) || t('excellentProgram')}</span>
+              </div>
+              <div className="mt-1.5 h-1 w-full max-w-md rounded-full bg-white/20">
+                <div
+                  className="h-full rounded-full bg-primary"
+                  style={{ width: `${Math.min(100, Math.max(0, progress * 100))}%` }}
+                />
+              </div>
+            </>
+          ) : (
+            <div className="mt-1 text-sm opacity-70">{t('noEpgAvailable')}</div>
+          )}
+
+          {/* 下一个节目 */}
+          {next && (
+            <div className="mt-1.5 truncate text-xs opacity-80">
+              {t('nextProgram')} <span className="tabular-nums">{formatTime(next.start)}</span>{' '}
+              {getProgramTitle(next, locale) || t('excellentProgram')}
+            </div>
+          )}
+
+          {description && (
+            <p className="mt-1.5 line-clamp-2 max-w-2xl text-xs opacity-70">{description}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProgramInfoBanner;
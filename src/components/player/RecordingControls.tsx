@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react';
+import { Circle, Square } from 'lucide-react';
+import { Locale } from '../../types/player';
+import { usePlayerTranslation } from '../../hooks/use-player-translation';
+import { ActiveRecording } from '../../hooks/use-recorder';
+import { formatDuration } from '../../lib/utils';
+
+interface RecordingControlsProps {
+  recordings: ActiveRecording[];
+  /** 当前是否有可录制的流 */
+  canRecord: boolean;
+  onRecord: () => void;
+  onStop: (id: string) => void;
+  locale: Locale;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const RecordingControls = ({ recordings, canRecord, onRecord, onStop, locale }: RecordingControlsProps) => {
+  const t = usePlayerTranslation(locale);
+  const [now, setNow] = useState(() => Date.now());
+
+  // 录制中每秒刷新时长
+  useEffect(() => {
+    if (recordings.length === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [recordings.length]);
+
+  return (
+    <div className="absolute right-3 top-3 z-30 flex flex-col items-end gap-1.5">
+      {recordings.map(recording => (
+        <div
+          key={recording.id}
+          className="flex items-center gap-2 rounded-md bg-black/70 px-2.5 py-1 text-xs text-white"
+        >
+          <Circle className="h-2.5 w-2.5 animate-pulse fill-red-600 text-red-600" />
+          <span className="max-w-32 truncate">{recording.programTitle || recording.channelName}</span>
+          <span className="tabular-nums opacity-80">
+            {formatDuration(Math.max(0, (now - recording.startedAt) / 1000))} · {formatSize(recording.bytes)}
+          </span>
+          <button
+            onClick={() => onStop(recording.id)}
+            title={t('stopRecording')}
+            className="rounded p-0.5 hover:bg-white/20"
+          >
+            <Square className="h-3 w-3 fill-current" />
+          </button>
+        </div>
+      ))}
+
+      {canRecord && (
+        <button
+          onClick={onRecord}
+          title={t('startRecording')}
+          className="flex items-center gap-1.5 rounded-md bg-black/50 px-2.5 py-1 text-xs text-white opacity-60 transition-opacity hover:opacity-100"
+        >
+          <Circle className="h-2.5 w-2.5 fill-red-600 text-red-600" />
+          {t('record')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default RecordingControls;
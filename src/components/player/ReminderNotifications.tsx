@@ -0,0 +1,53 @@
+import { Bell, X } from 'lucide-react';
+import { Locale, ProgramReminder } from '../../types/player';
+import { usePlayerTranslation } from '../../hooks/use-player-translation';
+
+interface ReminderNotificationsProps {
+  reminders: ProgramReminder[];
+  onTune: (reminder: ProgramReminder) => void;
+  onDismiss: (id: string) => void;
+  locale: Locale;
+}
+
+const ReminderNotifications = ({ reminders, onTune, onDismiss, locale }: ReminderNotificationsProps) => {
+  const t = usePlayerTranslation(locale);
+
+  if (reminders.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 flex w-80 max-w-[90vw] flex-col gap-2">
+      {reminders.map(reminder => (
+        <div
+          key={reminder.id}
+          role="alert"
+          className="flex items-start gap-3 rounded-md border border-border bg-card p-3 shadow-lg"
+        >
+          <Bell className="mt-0.5 h-4 w-4 shrink-0 text-primary" />
+          <div className="min-w-0 flex-1">
+            <div className="truncate text-sm font-medium">{reminder.programTitle || reminder.channelName}</div>
+            <div className="truncate text-xs text-muted-foreground">
+              {t('reminderStartsAt')
+                .replace('{channel}', reminder.channelName)
+                .replace('{time}', new Date(reminder.programStart).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }))}
+            </div>
+            <button
+              onClick={() => onTune(reminder)}
+              className="mt-2 rounded bg-primary px-3 py-1 text-xs text-primary-foreground hover:bg-primary/90"
+            >
+              {t('tuneNow')}
+            </button>
+          </div>
+          <button
+            onClick={() => onDismiss(reminder.id)}
+            title={t('close')}
+            className="rounded p-0.5 text-muted-foreground hover:bg-muted hover:text-foreground"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ReminderNotifications;
@@ -0,0 +1,105 @@
+import { History, Play, Trash2 } from 'lucide-react';
+import { Channel, Locale, WatchHistoryEntry } from '../../types/player';
+import { usePlayerTranslation } from '../../hooks/use-player-translation';
+import { canResume, findHistoryChannel } from '../../lib/watch-history';
+import { cn } from '../../lib/utils';
+
+interface WatchHistoryProps {
+  entries: WatchHistoryEntry[];
+  channels: Channel[];
+  /** 切换到记录的频道；回看记录从上次的位置继续 */
+  onSelect: (entry: WatchHistoryEntry, channel: Channel) => void;
+  onClear: () => void;
+  locale: Locale;
+}
+
+const WatchHistory = ({ entries, channels, onSelect, onClear, locale }: WatchHistoryProps) => {
+  const t = usePlayerTranslation(locale);
+
+  const formatTime = (time: number) =>
+    new Date(time).toLocaleString(locale, { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  if (entries.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full gap-2 text-muted-foreground text-sm">
+        <History className="h-6 w-6" />
+        {t('noWatchHistory')}
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+        <span className="text-xs font-medium text-muted-foreground">{t('recentlyWatched')}</span>
+        <button
+          onClick={onClear}
+          className="flex items-center gap-1 rounded px-1.5 py-0.5 text-xs text-muted-foreground hover:bg-muted"
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+          {t('clearHistory')}
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto divide-y divide-border">
+        {entries.map(entry => {
+          const channel = findHistoryChannel(channels, entry);
+          const resumable = canResume(entry);
+          // 回看进度（0-1）
+          const progress =
+            resumable && entry.programStart !== undefined && entry.programEnd !== undefined
+              ? Math.min(1, Math.max(0, ((entry.position as number) - entry.programStart) / (entry.programEnd - entry.programStart)))
+              : null;
+
+          return (
+            <div
+              key={`${entry.channelKey}-${entry.mode}-${entry.programStart ?? ''}`}
+              onClick={() => channel && onSelect(entry, channel)}
+              title={channel ? undefined : t('channelUnavailable')}
+              className={cn(
+                "px-3 py-2 transition-colors",
+                channel ? "hover:bg-muted cursor-pointer" : "opacity-50"
+              )}
+            >
+              <div className="flex items-center gap-2">
+                {entry.channelLogo && (
+                  <img
+                    src={entry.channelLogo}
+                    alt={entry.channelName}
+                    className="w-6 h-6 rounded object-cover"
+                    onError={(e) => {
+                      e.currentTarget.style.display = 'none';
+                    }}
+                  />
+                )}
+                <div className="flex-1 min-w-0">
+                  <div className="truncate text-sm">{entry.channelName}</div>
+                  <div className="truncate text-xs text-muted-foreground">
+                    <span className={cn(entry.mode === 'live' ? 'text-red-500' : 'text-primary')}>
+                      {entry.mode === 'live' ? t('live') : t('catchup')}
+                    </span>
+                    {entry.programTitle && ` · ${entry.programTitle}`}
+                    {` · ${formatTime(entry.watchedAt)}`}
+                  </div>
+                </div>
+                {resumable && channel && (
+                  <span className="flex items-center gap-0.5 shrink-0 text-xs text-primary">
+                    <Play className="h-3 w-3" />
+                    {t('resume')}
+                  </span>
+                )}
+              </div>
+              {progress !== null && (
+                <div className="mt-1.5 h-0.5 rounded bg-muted">
+                  <div className="h-full rounded bg-primary" style={{ width: `${progress * 100}%` }} />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default WatchHistory;
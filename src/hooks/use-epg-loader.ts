@@ -1,12 +1,33 @@
-import { useState, useEffect } from 'react';
-import { EPGData, parseEPG } from '../lib/epg-parser';
+import { useState, useEffect, useMemo } from 'react';
+import { EPGData } from '../lib/epg-parser';
+import { EPGLoadProgress, loadEPG } from '../lib/epg-loader';
+import { getResponseStream } from '../lib/epg-stream';
+import { CacheValidators, conditionalFetch, retryWithBackoff } from '../lib/conditional-fetch';
 
-export function useEPGLoader(url: string) {
+/**
+ * 加载并定时刷新节目单
+ * @param url - 节目单地址；为 null 时等待（例如播放列表尚未加载，还不知道节目单时区）
+ * @param timezone - 未带时区的时间按此时区解析（播放列表的 x-tvg-timezone）
+ * @param channelIds - 只保留这些频道的节目（见 getGuideChannelIds），省略时保留全部
+ */
+export function useEPGLoader(url: string | null, timezone?: string, channelIds?: Iterable<string>) {
   const [epgData, setEpgData] = useState<EPGData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [progress, setProgress] = useState<EPGLoadProgress | null>(null);
   const [error, setError] = useState<Error | null>(null);
+  // 按内容而不是对象比较频道列表，刷新后频道未变时不重新加载
+  const channelKey = useMemo(
+    () => (channelIds ? Array.from(channelIds).sort().join('\n') : null),
+    [channelIds]
+  );
   
   useEffect(() => {
+    if (url === null) return;
+    const controller = new AbortController();
+    // 上次响应的 ETag / Last-Modified，节目单未更新时服务器返回 304，不再重新解析
+    let validators: CacheValidators | undefined;
+    let hasLoaded = false;
+
     const fetchEPG = async () => {
       if (!url) {
         setIsLoading(false);
@@ -14,26 +35,39 @@ export function useEPGLoader(url: string) {
       }
       
       try {
-        setIsLoading(true);
-        const response = await fetch(url, {
-          mode: 'cors',
-          cache: 'no-cache'
+        // 后台刷新时保持已有数据，不显示加载状态
+        if (!hasLoaded) setIsLoading(true);
+        const result = await retryWithBackoff(() => conditionalFetch(url, validators, controller.signal), {
+          signal: controller.signal,
+          onRetry: (err, attempt, delay) =>
+            console.warn(`Retrying EPG fetch (${attempt}) in ${Math.round(delay / 1000)}s:`, err),
         });
-        
-        if (!response.ok) {
-          throw new Error(`Failed to fetch EPG: ${response.statusText}`);
+        if (!result.modified) {
+          setError(null);
+          return;
         }
-        
-        const text = await response.text();
-        const parsed = parseEPG(text);
+
+        // 响应体边下载边交给 Worker 流式解析（支持 .xml.gz）
+        const parsed = await loadEPG(getResponseStream(result.response), channelKey?.split('\n'), {
+          timezone,
+          onProgress: setProgress,
+          signal: controller.signal,
+        });
         
         setEpgData(parsed);
+        // 解析成功后才记录，失败时下次刷新仍会完整下载
+        validators = result.validators;
+        hasLoaded = true;
         setError(null);
       } catch (err) {
+        if (controller.signal.aborted) return;
         setError(err as Error);
         console.error('Error loading EPG:', err);
       } finally {
-        setIsLoading(false);
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+          setProgress(null);
+        }
       }
     };
     
@@ -42,8 +76,11 @@ export function useEPGLoader(url: string) {
     // 每6小时刷新一次EPG
     const interval = setInterval(fetchEPG, 6 * 60 * 60 * 1000);
     
-    return () => clearInterval(interval);
-  }, [url]);
+    return () => {
+      controller.abort();
+      clearInterval(interval);
+    };
+  }, [url, timezone, channelKey]);
   
-  return { epgData, isLoading, error };
+  return { epgData, isLoading, progress, error };
 }
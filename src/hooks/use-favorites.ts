@@ -0,0 +1,34 @@
+import { useState, useCallback } from 'react';
+import { Channel } from '../types/player';
+import { getFavorites, saveFavorites } from '../lib/player-storage';
+import { getChannelKey, moveItem } from '../lib/favorites';
+
+export function useFavorites() {
+  // 收藏频道的 key，按显示顺序
+  const [favoriteKeys, setFavoriteKeys] = useState<string[]>(() => getFavorites());
+
+  const update = useCallback((keys: string[]) => {
+    setFavoriteKeys(keys);
+    saveFavorites(keys);
+  }, []);
+
+  const isFavorite = useCallback(
+    (channel: Channel) => favoriteKeys.includes(getChannelKey(channel)),
+    [favoriteKeys]
+  );
+
+  const toggleFavorite = useCallback((channel: Channel) => {
+    const key = getChannelKey(channel);
+    update(favoriteKeys.includes(key) ? favoriteKeys.filter(k => k !== key) : [...favoriteKeys, key]);
+  }, [favoriteKeys, update]);
+
+  // 按 key 移动，列表中可能有当前播放列表里不存在的收藏
+  const moveFavorite = useCallback((fromKey: string, toKey: string) => {
+    const from = favoriteKeys.indexOf(fromKey);
+    const to = favoriteKeys.indexOf(toKey);
+    if (from === -1 || to === -1 || from === to) return;
+    update(moveItem(favoriteKeys, from, to));
+  }, [favoriteKeys, update]);
+
+  return { favoriteKeys, isFavorite, toggleFavorite, moveFavorite, setFavoriteKeys: update };
+}
@@ -0,0 +1,62 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { getLiveSyncAction, isAtLiveEdge } from '../lib/live-sync';
+import { getLiveLatency } from '../lib/stream-diagnostics';
+
+interface LiveSyncOptions {
+  /** 直播且正在播放时才追赶 */
+  enabled: boolean;
+  /** 目标延迟（秒） */
+  targetLatency: number;
+}
+
+export function useLiveSync(videoRef: RefObject<HTMLVideoElement | null>, { enabled, targetLatency }: LiveSyncOptions) {
+  // 距离缓冲末尾的秒数，尚无缓冲时为 null
+  const [latency, setLatency] = useState<number | null>(null);
+  const catchingUpRef = useRef(false);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !enabled) return;
+
+    const timer = setInterval(() => {
+      const current = getLiveLatency(video);
+      // 只保留一位小数，避免每次采样都触发渲染
+      setLatency(current === null ? null : Math.round(current * 10) / 10);
+      if (current === null || video.paused || video.seeking) return;
+
+      const bufferedEnd = video.buffered.end(video.buffered.length - 1);
+      const action = getLiveSyncAction(current, bufferedEnd, catchingUpRef.current, { targetLatency });
+      catchingUpRef.current = action.type === 'catchUp';
+
+      if (action.type === 'seek') {
+        console.info(`Live latency ${current.toFixed(1)}s, seeking to the live edge`);
+        video.currentTime = action.time;
+      }
+      video.playbackRate = action.type === 'catchUp' ? action.playbackRate : 1;
+    }, 1000);
+
+    return () => {
+      clearInterval(timer);
+      catchingUpRef.current = false;
+      video.playbackRate = 1;
+    };
+  }, [videoRef, enabled, targetLatency]);
+
+  // 离开直播时清空延迟
+  useEffect(() => {
+    if (!enabled) setLatency(null);
+  }, [enabled]);
+
+  /** 跳到直播边缘（保留目标延迟） */
+  const jumpToLive = useCallback(() => {
+    const video = videoRef.current;
+    if (!video || video.buffered.length === 0) return;
+    video.currentTime = Math.max(0, video.buffered.end(video.buffered.length - 1) - targetLatency);
+  },[videoRef, targetLatency]);
+
+  return {
+    latency,
+    atLiveEdge: latency === null || isAtLiveEdge(latency, targetLatency),
+    jumpToLive,
+  };
+}
@@ -1,52 +1,86 @@
-import { useState, useEffect } from 'react';
-import { Channel } from '../types/player';
+import { useState, useEffect, useRef } from 'react';
+import { Channel, M3UMetadata } from '../types/player';
 import { parseM3U } from '../lib/m3u-parser';
+import { CacheValidators, conditionalFetch, retryWithBackoff } from '../lib/conditional-fetch';
+import { ChannelDiff, diffChannels, hasChannelChanges } from '../lib/channel-diff';
 
-export function useM3ULoader(url: string) {
+interface M3ULoaderOptions {
+  /** 刷新后频道列表有变化时调用（首次加载不调用） */
+  onChange?: (diff: ChannelDiff) => void;
+}
+
+export function useM3ULoader(url: string, options: M3ULoaderOptions = {}) {
   const [channels, setChannels] = useState<Channel[]>([]);
   const [groups, setGroups] = useState<string[]>([]);
+  // #EXTM3U 头部信息（节目单地址、节目单时区等）
+  const [header, setHeader] = useState<Pick<M3UMetadata, 'tvgUrl' | 'epgTimezone' | 'attributes'> | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
-  
+  const [lastDiff, setLastDiff] = useState<ChannelDiff | null>(null);
+  const channelsRef = useRef<Channel[]>([]);
+  const onChangeRef = useRef(options.onChange);
+  onChangeRef.current = options.onChange;
+
   useEffect(() => {
+    const controller = new AbortController();
+    // 上次响应的 ETag / Last-Modified，用于条件请求
+    let validators: CacheValidators | undefined;
+    let isFirstLoad = true;
+    channelsRef.current = [];
+
     const fetchM3U = async () => {
       if (!url) {
         setIsLoading(false);
         return;
       }
-      
+
       try {
-        setIsLoading(true);
-        const response = await fetch(url, {
-          mode: 'cors',
-          cache: 'no-cache'
+        if (isFirstLoad) setIsLoading(true);
+        const result = await retryWithBackoff(() => conditionalFetch(url, validators, controller.signal), {
+          signal: controller.signal,
+          onRetry: (err, attempt, delay) =>
+            console.warn(`Retrying M3U fetch (${attempt}) in ${Math.round(delay / 1000)}s:`, err),
         });
-        
-        if (!response.ok) {
-          throw new Error(`Failed to fetch M3U: ${response.statusText}`);
-        }
-        
-        const text = await response.text();
-        const parsed = parseM3U(text);
-        
-        setChannels(parsed.channels);
-        setGroups(parsed.groups);
+        validators = result.validators;
         setError(null);
+        // 304：内容未变化
+        if (!result.modified) return;
+
+        const parsed = parseM3U(await result.response.text());
+        setHeader({ tvgUrl: parsed.tvgUrl, epgTimezone: parsed.epgTimezone, attributes: parsed.attributes });
+        const previous = channelsRef.current;
+        const diff = diffChannels(previous, parsed.channels);
+
+        if (isFirstLoad || hasChannelChanges(diff, previous)) {
+          // 未变化的频道沿用旧对象，正在播放的频道不会因刷新而重新加载
+          channelsRef.current = diff.channels;
+          setChannels(diff.channels);
+          setGroups(parsed.groups);
+          if (!isFirstLoad) {
+            setLastDiff(diff);
+            onChangeRef.current?.(diff);
+          }
+        }
+        isFirstLoad = false;
       } catch (err) {
+        if (controller.signal.aborted) return;
         setError(err as Error);
         console.error('Error loading M3U:', err);
       } finally {
-        setIsLoading(false);
+        if (!controller.signal.aborted) setIsLoading(false);
       }
     };
-    
+
     fetchM3U();
-    
+
     // 每30分钟刷新一次M3U
     const interval = setInterval(fetchM3U, 30 * 60 * 1000);
-    
-    return () => clearInterval(interval);
+
+    return () => {
+      controller.abort();
+      clearInterval(interval);
+    };
   }, [url]);
-  
-  return { channels, groups, isLoading, error };
+
+  return { channels, groups, header, isLoading, error, lastDiff };
 }
@@ -0,0 +1,151 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Channel, EPGProgram, Locale, ScheduledRecording } from '../types/player';
+import { getScheduledRecordings, saveScheduledRecordings } from '../lib/player-storage';
+import { getRecordingFileName, RecordingHandle, RecordingResult, startRecording } from '../lib/recorder';
+import { getChannelKey } from '../lib/favorites';
+import { getProgramTitle } from '../lib/epg-parser';
+import { getChannelWithSource } from '../lib/m3u-parser';
+
+/** 录制进度最多每秒更新一次界面 */
+const PROGRESS_INTERVAL_MS = 1000;
+/** 最长等待间隔，避免休眠或时钟跳变后错过预约 */
+const MAX_TIMER_DELAY_MS = 60 * 60 * 1000;
+
+export interface ActiveRecording {
+  id: string;
+  channelName: string;
+  programTitle?: string;
+  startedAt: number;
+  bytes: number;
+  /** 预约录制的结束时间 */
+  endsAt?: number;
+}
+
+export function useRecorder(
+  channels: Channel[] | undefined,
+  locale: Locale,
+  onFinished: (result: RecordingResult) => void
+) {
+  const [recordings, setRecordings] = useState<ActiveRecording[]>([]);
+  const [scheduled, setScheduled] = useState<ScheduledRecording[]>(() => getScheduledRecordings());
+  // 定时器到点后递增，触发重新检查预约
+  const [checkToken, setCheckToken] = useState(0);
+  const handlesRef = useRef(new Map<string, RecordingHandle>());
+  // 已开始的预约，防止 effect 重复执行时录制两份
+  const startedScheduleIdsRef = useRef(new Set<string>());
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  const updateScheduled = useCallback((updater: (prev: ScheduledRecording[]) => ScheduledRecording[]) => {
+    setScheduled(prev => {
+      const next = updater(prev);
+      if (next !== prev) saveScheduledRecordings(next);
+      return next;
+    });
+  }, []);
+
+  const start = useCallback((
+    channelName: string,
+    urls: string[],
+    options: { programTitle?: string; endsAt?: number } = {}
+  ) => {
+    const startedAt = Date.now();
+    const id = `${startedAt}-${handlesRef.current.size}`;
+    let lastUpdate = 0;
+
+    const handle = startRecording({
+      urls,
+      fileName: getRecordingFileName({ name: channelName }, new Date(startedAt)),
+      onProgress: ({ bytes }) => {
+        const now = Date.now();
+        if (now - lastUpdate < PROGRESS_INTERVAL_MS) return;
+        lastUpdate = now;
+        setRecordings(prev => prev.map(r => (r.id === id ? { ...r, bytes } : r)));
+      },
+    });
+    handlesRef.current.set(id, handle);
+    setRecordings(prev => [...prev, { id, channelName, startedAt, bytes: 0, ...options }]);
+
+    // 预约录制到节目结束时自动停止
+    const stopTimer = options.endsAt !== undefined
+      ? window.setTimeout(() => handle.stop('scheduled'), Math.max(0, options.endsAt - startedAt))
+      : null;
+
+    handle.done.then(result => {
+      if (stopTimer !== null) window.clearTimeout(stopTimer);
+      handlesRef.current.delete(id);
+      setRecordings(prev => prev.filter(r => r.id !== id));
+      onFinishedRef.current(result);
+    });
+
+    return id;
+  }, []);
+
+  const stop = useCallback((id: string) => {
+    handlesRef.current.get(id)?.stop('user');
+  }, []);
+
+  const isRecordingScheduled = useCallback(
+    (channel: Channel, program: EPGProgram) =>
+      scheduled.some(r => r.channelKey === getChannelKey(channel) && r.start === program.start.getTime()),
+    [scheduled]
+  );
+
+  const toggleScheduledRecording = useCallback((channel: Channel, program: EPGProgram) => {
+    const channelKey = getChannelKey(channel);
+    const id = `${channelKey}@${program.start.getTime()}`;
+    updateScheduled(prev =>
+      prev.some(r => r.id === id)
+        ? prev.filter(r => r.id !== id)
+        : [...prev, {
+            id,
+            channelKey,
+            channelName: channel.name,
+            programTitle: getProgramTitle(program, locale) || undefined,
+            start: program.start.getTime(),
+            end: program.end.getTime(),
+          }]
+    );
+  }, [updateScheduled, locale]);
+
+  // 到预约时间开始录制，然后等待下一个
+  useEffect(() => {
+    if (!channels) return;
+
+    const now = Date.now();
+    const due = scheduled.filter(r => r.start <= now);
+    if (due.length > 0) {
+      due.forEach(r => {
+        if (r.end <= now || startedScheduleIdsRef.current.has(r.id)) return;
+        startedScheduleIdsRef.current.add(r.id);
+        const channel = channels.find(ch => getChannelKey(ch) === r.channelKey);
+        if (!channel) {
+          console.warn(`Scheduled recording skipped, channel ${r.channelName} is no longer in the playlist`);
+          return;
+        }
+        start(channel.name, [getChannelWithSource(channel, 0).url], { programTitle: r.programTitle, endsAt: r.end });
+      });
+      const dueIds = new Set(due.map(r => r.id));
+      updateScheduled(prev => prev.filter(r => !dueIds.has(r.id)));
+      return;
+    }
+
+    if (scheduled.length === 0) return;
+    const next = Math.min(...scheduled.map(r => r.start));
+    const timer = window.setTimeout(
+      () => setCheckToken(token => token + 1),
+      Math.min(next - now, MAX_TIMER_DELAY_MS)
+    );
+    return () => window.clearTimeout(timer);
+  }, [channels, scheduled, checkToken, start, updateScheduled]);
+
+  // 离开页面时结束所有录制，保留已录内容
+  useEffect(() => {
+    const handles = handlesRef.current;
+    return () => {
+      handles.forEach(handle => handle.stop('user'));
+    };
+  }, []);
+
+  return { recordings, scheduled, start, stop, isRecordingScheduled, toggleScheduledRecording };
+}
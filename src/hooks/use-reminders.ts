@@ -0,0 +1,113 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Channel, EPGProgram, Locale, ProgramReminder } from '../types/player';
+import { EPGData } from '../lib/epg-parser';
+import { getReminders, saveReminders } from '../lib/player-storage';
+import {
+  createReminder,
+  findReminder,
+  getDueReminders,
+  getNextReminderTime,
+  reattachReminders,
+} from '../lib/reminders';
+import { usePlayerTranslation } from './use-player-translation';
+
+/** 最长等待间隔，避免休眠或时钟跳变后错过提醒 */
+const MAX_TIMER_DELAY_MS = 60 * 60 * 1000;
+
+export function useReminders(
+  channels: Channel[] | undefined,
+  epgData: EPGData,
+  locale: Locale,
+  onTune: (reminder: ProgramReminder) => void
+) {
+  const t = usePlayerTranslation(locale);
+  const [reminders, setReminders] = useState<ProgramReminder[]>(() => getReminders());
+  // 已到时间、等待用户处理的提醒
+  const [activeReminders, setActiveReminders] = useState<ProgramReminder[]>([]);
+  // 定时器到点后递增，触发重新检查
+  const [checkToken, setCheckToken] = useState(0);
+  const onTuneRef = useRef(onTune);
+  onTuneRef.current = onTune;
+
+  const update = useCallback((updater: (prev: ProgramReminder[]) => ProgramReminder[]) => {
+    setReminders(prev => {
+      const next = updater(prev);
+      if (next !== prev) saveReminders(next);
+      return next;
+    });
+  }, []);
+
+  const isReminderSet = useCallback(
+    (channel: Channel, program: EPGProgram) => !!findReminder(reminders, channel, program),
+    [reminders]
+  );
+
+  const toggleReminder = useCallback((channel: Channel, program: EPGProgram) => {
+    const existing = findReminder(reminders, channel, program);
+    if (existing) {
+      update(prev => prev.filter(r => r.id !== existing.id));
+      return;
+    }
+
+    update(prev => [...prev, createReminder(channel, program, locale)]);
+    // 首次设置提醒时请求系统通知权限，拒绝时仍有页面内提醒
+    if ('Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission().catch(err => console.error('Notification permission error:', err));
+    }
+  }, [reminders, update, locale]);
+
+  const dismissReminder = useCallback((id: string) => {
+    setActiveReminders(prev => prev.filter(r => r.id !== id));
+  }, []);
+
+  // 节目单刷新后重新关联提醒（节目可能改了时间）
+  useEffect(() => {
+    if (!channels || channels.length === 0) return;
+    update(prev => {
+      const next = reattachReminders(prev, channels, epgData);
+      const unchanged = next.length === prev.length && next.every((r, i) => r === prev[i]);
+      return unchanged ? prev : next;
+    });
+  }, [channels, epgData, update]);
+
+  // 到时间时提醒，然后等待下一个
+  useEffect(() => {
+    const notify = () => {
+      const due = getDueReminders(reminders);
+      if (due.length === 0) return false;
+
+      const dueIds = new Set(due.map(r => r.id));
+      update(prev => prev.map(r => (dueIds.has(r.id) ? { ...r, notified: true } : r)));
+      setActiveReminders(prev => [...prev.filter(r => !dueIds.has(r.id)), ...due]);
+
+      if ('Notification' in window && Notification.permission === 'granted') {
+        due.forEach(reminder => {
+          const body = t('reminderStartsAt')
+            .replace('{channel}', reminder.channelName)
+            .replace('{time}', new Date(reminder.programStart).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }));
+          const notification = new Notification(reminder.programTitle || reminder.channelName, { body, tag: reminder.id });
+          notification.onclick = () => {
+            window.focus();
+            notification.close();
+            onTuneRef.current(reminder);
+            setActiveReminders(prev => prev.filter(r => r.id !== reminder.id));
+          };
+        });
+      }
+      return true;
+    };
+
+    // 提醒状态更新后会重新执行本 effect 并安排下一个
+    if (notify()) return;
+
+    const next = getNextReminderTime(reminders);
+    if (next === null) return;
+    const timer = setTimeout(
+      () => setCheckToken(token => token + 1),
+      Math.min(Math.max(0, next - Date.now()), MAX_TIMER_DELAY_MS)
+    );
+    return () => clearTimeout(timer);
+  }, [reminders, checkToken, update, t]);
+
+  return { reminders, activeReminders, isReminderSet, toggleReminder, dismissReminder };
+}
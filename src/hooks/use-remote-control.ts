@@ -0,0 +1,124 @@
+import { useState, useEffect, useRef } from 'react';
+import { getRemoteAction, isKeyForFocusedControl } from '../lib/remote-keys';
+
+/** 输入频道号后自动切换的等待时间 */
+const DIGIT_COMMIT_DELAY_MS = 1500;
+/** 频道号最大位数，输满立即切换 */
+const MAX_DIGITS = 4;
+
+export interface RemoteControlHandlers {
+  onChannelNumber: (number: number) => void;
+  onChannelStep: (direction: 'prev' | 'next') => void;
+  onSeek: (direction: 'backward' | 'forward') => void;
+  onTogglePlay: () => void;
+  onToggleMute: () => void;
+  onToggleFullscreen: () => void;
+  onBack: () => void;
+  onOpenGuide: () => void;
+  onShowInfo: () => void;
+}
+
+export function useRemoteControl(handlers: RemoteControlHandlers, enabled = true) {
+  // 正在输入的频道号，用于屏幕显示
+  const [pendingNumber, setPendingNumber] = useState('');
+  const pendingRef = useRef('');
+  const timerRef = useRef<number | null>(null);
+  // 始终使用最新的回调，避免重复绑定监听
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const setPending = (value: string) => {
+      pendingRef.current = value;
+      setPendingNumber(value);
+    };
+
+    const clearTimer = () => {
+      if (timerRef.current !== null) {
+        window.clearTimeout(timerRef.current);
+        timerRef.current = null;
+      }
+    };
+
+    const commit = () => {
+      clearTimer();
+      const number = Number(pendingRef.current);
+      setPending('');
+      if (number > 0) {
+        handlersRef.current.onChannelNumber(number);
+      }
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || e.defaultPrevented) return;
+      if (isKeyForFocusedControl(e)) return;
+
+      const action = getRemoteAction(e);
+      if (!action) return;
+      e.preventDefault();
+
+      // 输入频道号时，确认键立即切换，返回键取消输入
+      if (pendingRef.current) {
+        if (action.type === 'confirm') {
+          commit();
+          return;
+        }
+        if (action.type === 'back') {
+          clearTimer();
+          setPending('');
+          return;
+        }
+      }
+
+      const h = handlersRef.current;
+      switch (action.type) {
+        case 'digit': {
+          const next = (pendingRef.current + action.digit).slice(-MAX_DIGITS);
+          setPending(next);
+          clearTimer();
+          if (next.length >= MAX_DIGITS) {
+            commit();
+          } else {
+            timerRef.current = window.setTimeout(commit, DIGIT_COMMIT_DELAY_MS);
+          }
+          break;
+        }
+        case 'channel':
+          h.onChannelStep(action.direction);
+          break;
+        case 'seek':
+          h.onSeek(action.direction);
+          break;
+        case 'back':
+          h.onBack();
+          break;
+        case 'togglePlay':
+          h.onTogglePlay();
+          break;
+        case 'toggleMute':
+          h.onToggleMute();
+          break;
+        case 'toggleFullscreen':
+          h.onToggleFullscreen();
+          break;
+        case 'openGuide':
+          h.onOpenGuide();
+          break;
+        case 'showInfo':
+          h.onShowInfo();
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      clearTimer();
+      setPending('');
+    };
+  }, [enabled]);
+
+  return { pendingNumber };
+}
@@ -0,0 +1,70 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import {
+  DiagnosticsSample,
+  StreamDiagnostics,
+  appendSample,
+  getBufferAhead,
+  getFrameCounts,
+  getLiveLatency,
+} from '../lib/stream-diagnostics';
+
+interface StreamDiagnosticsOptions {
+  /** 频道标识，变化时清空统计 */
+  channelKey: string;
+  channelName: string;
+  url: string;
+  isLive: boolean;
+  /** 诊断面板是否打开；关闭时只在后台采样，不触发渲染 */
+  visible: boolean;
+}
+
+export function useStreamDiagnostics(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  { channelKey, channelName, url, isLive, visible }: StreamDiagnosticsOptions
+) {
+  const reconnectsRef = useRef(0);
+  const samplesRef = useRef<DiagnosticsSample[]>([]);
+  const [diagnostics, setDiagnostics] = useState<StreamDiagnostics | null>(null);
+
+  // 切换频道时清空统计
+  useEffect(() => {
+    reconnectsRef.current = 0;
+    samplesRef.current = [];
+    setDiagnostics(null);
+  }, [channelKey]);
+
+  // 每秒采样一次，保留最近一分钟
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const video = videoRef.current;
+      if (!video) return;
+
+      samplesRef.current = appendSample(samplesRef.current, {
+        time: Date.now(),
+        bufferSeconds: getBufferAhead(video),
+        ...getFrameCounts(video),
+        latencySeconds: isLive ? getLiveLatency(video) : null,
+      });
+
+      if (visible) {
+        setDiagnostics({
+          channelName,
+          url,
+          isLive,
+          width: video.videoWidth,
+          height: video.videoHeight,
+          reconnects: reconnectsRef.current,
+          samples: samplesRef.current,
+        });
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [videoRef, channelName, url, isLive, visible]);
+
+  /** 重试、重新加载或切换播放源时调用 */
+  const reportReconnect = useCallback(() => {
+    reconnectsRef.current += 1;
+  }, []);
+
+  return { diagnostics, reportReconnect };
+}
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { TimeshiftBuffer, TimeshiftWindow, startTimeshiftBuffer } from '../lib/timeshift-buffer';
+
+/**
+ * 直播时移：后台缓存最近一段直播流，用于暂停和回退
+ * @param url 直播地址，非直播时为 null
+ * @param windowMinutes 缓存时长（分钟），0 表示关闭
+ */
+export function useTimeshift(url: string | null, windowMinutes: number) {
+  const bufferRef = useRef<TimeshiftBuffer | null>(null);
+  // 已缓存的时间范围，每秒刷新
+  const [bufferWindow, setBufferWindow] = useState<TimeshiftWindow | null>(null);
+
+  useEffect(() => {
+    if (!url || windowMinutes <= 0) return;
+
+    const buffer = startTimeshiftBuffer({ url, windowMs: windowMinutes * 60 * 1000 });
+    bufferRef.current = buffer;
+    const timer = setInterval(() => setBufferWindow(buffer.getWindow()), 1000);
+
+    return () => {
+      clearInterval(timer);
+      buffer.stop();
+      bufferRef.current = null;
+      setBufferWindow(null);
+    };
+  }, [url, windowMinutes]);
+
+  const findSegmentStart = useCallback((time: number) => bufferRef.current?.findSegmentStart(time) ?? null, []);
+
+  const slice = useCallback((start: number) => bufferRef.current?.slice(start) ?? null, []);
+
+  return { bufferWindow, findSegmentStart, slice };
+}
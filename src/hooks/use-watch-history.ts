@@ -0,0 +1,24 @@
+import { useState, useCallback } from 'react';
+import { WatchHistoryEntry } from '../types/player';
+import { clearWatchHistory, getWatchHistory, saveWatchHistory } from '../lib/player-storage';
+import { addWatchHistoryEntry } from '../lib/watch-history';
+
+export function useWatchHistory() {
+  // 最近观看记录，最新的在前
+  const [history, setHistory] = useState<WatchHistoryEntry[]>(() => getWatchHistory());
+
+  const record = useCallback((entry: WatchHistoryEntry) => {
+    setHistory(prev => {
+      const next = addWatchHistoryEntry(prev, entry);
+      saveWatchHistory(next);
+      return next;
+    });
+  }, []);
+
+  const clear = useCallback(() => {
+    clearWatchHistory();
+    setHistory([]);
+  }, []);
+
+  return { history, record, clear };
+}
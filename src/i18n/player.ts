@@ -1,4 +1,4 @@
-import type { Locale } from "../lib/locale";
+import type { Locale } from "../types/player";
 
 type TranslationDict = Record<string, string>;
 
@@ -82,6 +82,10 @@ const base: TranslationDict = {
   themeDark: "Dark",
   catchupTailOffset: "Catchup Tail Offset",
   catchupTailOffsetHint: "0 means current time, in seconds",
+  liveTargetLatency: "Live Target Latency",
+  liveTargetLatencyHint: "Distance kept behind the live edge, in seconds",
+  timeshiftWindow: "Timeshift Window",
+  timeshiftWindowHint: "Minutes of live TV kept for pause and rewind, 0 to disable",
   force16x9: "Force 16:9",
 };
 
@@ -165,6 +169,10 @@ const zhHans: TranslationDict = {
   themeDark: "深色",
   catchupTailOffset: "回看切片尾偏移",
   catchupTailOffsetHint: "0 表示当前，单位秒",
+  liveTargetLatency: "直播目标延迟",
+  liveTargetLatencyHint: "与直播边缘保持的距离，单位秒",
+  timeshiftWindow: "时移缓存时长",
+  timeshiftWindowHint: "缓存最近的直播用于暂停和回退，单位分钟，0 表示关闭",
   force16x9: "强制 16:9",
 };
 
@@ -248,11 +256,15 @@ const zhHant: TranslationDict = {
   themeDark: "深色",
   catchupTailOffset: "回看切片尾偏移",
   catchupTailOffsetHint: "0 表示當前，單位秒",
+  liveTargetLatency: "直播目標延遲",
+  liveTargetLatencyHint: "與直播邊緣保持的距離，單位秒",
+  timeshiftWindow: "時移快取時長",
+  timeshiftWindowHint: "快取最近的直播用於暫停和倒退，單位分鐘，0 表示關閉",
   force16x9: "強制 16:9",
 };
 
 export const translations: Record<Locale, TranslationDict> = {
-  en: base,
+  "en-US": base,
   "zh-Hans": { ...base, ...zhHans },
   "zh-Hant": { ...base, ...zhHant },
 };
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { Channel } from "../types/player";
+import {
+  buildCatchupSegments,
+  CATCHUP_SEGMENT_SECONDS,
+  expandCatchupTemplate,
+  getCatchupTemplate,
+  supportsCatchup,
+} from "./catchup";
+
+type CatchupChannel = Pick<Channel, "url" | "catchup" | "catchupSource">;
+
+const HOUR = 60 * 60 * 1000;
+// Local times, so the local-time placeholders read the same in every time zone
+const START = new Date(2026, 0, 2, 12, 30, 5);
+const END = new Date(START.getTime() + HOUR);
+const NOW = new Date(START.getTime() + 3 * HOUR);
+const range = { start: START, end: END, now: NOW };
+const seconds = (date: Date) => Math.floor(date.getTime() / 1000);
+
+describe("expandCatchupTemplate", () => {
+  it("replaces Unix second placeholders with and without a dollar sign", () => {
+    expect(expandCatchupTemplate("?a=${utc}&b={utcend}&c={lutc}&d=${timestamp}", range)).toBe(
+      `?a=${seconds(START)}&b=${seconds(END)}&c=${seconds(NOW)}&d=${seconds(NOW)}`,
+    );
+  });
+
+  it("divides duration and offset by the given argument", () => {
+    expect(expandCatchupTemplate("{duration}/{duration:60}/{offset}/{offset:60}", range)).toBe("3600/60/10800/180");
+  });
+
+  it("formats ${(b)} and ${(e)} in local time or in UTC", () => {
+    expect(expandCatchupTemplate("${(b)yyyyMMddHHmmss}-${(e)yyyyMMddHHmmss}", range)).toBe(
+      "20260102123005-20260102133005",
+    );
+
+    const utcStart = new Date(Date.UTC(2026, 0, 2, 23, 15, 0));
+    const utcRange = { start: utcStart, end: new Date(utcStart.getTime() + HOUR), now: NOW };
+    expect(expandCatchupTemplate("${(b)yyyyMMddHHmmss|UTC}-${(e)yyyyMMddHHmmss|UTC}", utcRange)).toBe(
+      "20260102231500-20260103001500",
+    );
+  });
+
+  it("formats named times with a FORMAT argument", () => {
+    expect(expandCatchupTemplate("{start:Y-m-d:H-M}", range)).toBe("2026-01-02:12-30");
+    expect(expandCatchupTemplate("{Y}{m}{d}{H}{M}{S}", range)).toBe("20260102123005");
+    expect(expandCatchupTemplate("{utc:yyyy-MM-dd}", range)).toBe(START.toISOString().slice(0, 10));
+  });
+
+  it("leaves unknown placeholders untouched", () => {
+    expect(expandCatchupTemplate("{unknown}/{duration:x}/{foo:Y}", range)).toBe("{unknown}/{duration:x}/{foo:Y}");
+  });
+});
+
+describe("getCatchupTemplate", () => {
+  it("uses catchup-source as the template or appends it to the live URL", () => {
+    expect(
+      getCatchupTemplate({ url: "http://tv/live", catchup: "default", catchupSource: "http://tv/vod?s={utc}" }),
+    ).toBe("http://tv/vod?s={utc}");
+    expect(getCatchupTemplate({ url: "http://tv/live?x=1", catchup: "default", catchupSource: "?s={utc}" })).toBe(
+      "http://tv/live?x=1&s={utc}",
+    );
+    expect(getCatchupTemplate({ url: "http://tv/live", catchup: "append", catchupSource: "/{utc}.ts" })).toBe(
+      "http://tv/live/{utc}.ts",
+    );
+  });
+
+  it("adds utc and lutc for shift", () => {
+    expect(getCatchupTemplate({ url: "http://tv/live", catchup: "shift" })).toBe(
+      "http://tv/live?utc={utc}&lutc={lutc}",
+    );
+  });
+
+  it("rewrites Flussonic live URLs", () => {
+    expect(getCatchupTemplate({ url: "http://fs/ch1/mpegts?token=t", catchup: "flussonic" })).toBe(
+      "http://fs/ch1/timeshift_abs-{utc}.ts?token=t",
+    );
+    expect(getCatchupTemplate({ url: "http://fs/ch1/index.m3u8", catchup: "fs" })).toBe(
+      "http://fs/ch1/index-{utc}-{duration}.m3u8",
+    );
+    expect(getCatchupTemplate({ url: "http://fs/ch1/video.ts", catchup: "flussonic-ts" })).toBe(
+      "http://fs/ch1/timeshift_abs-{utc}.ts",
+    );
+  });
+
+  it("rewrites Xtream Codes live URLs", () => {
+    expect(getCatchupTemplate({ url: "http://xc:8080/live/user/pass/123.m3u8", catchup: "xc" })).toBe(
+      "http://xc:8080/timeshift/user/pass/{duration:60}/{start:Y-m-d:H-M}/123.m3u8",
+    );
+    expect(getCatchupTemplate({ url: "http://xc:8080/user/pass/123", catchup: "xc" })).toBe(
+      "http://xc:8080/timeshift/user/pass/{duration:60}/{start:Y-m-d:H-M}/123.ts",
+    );
+  });
+
+  it("falls back to catchup-source when the URL cannot be rewritten", () => {
+    expect(getCatchupTemplate({ url: "http://tv/stream", catchup: "xc", catchupSource: "http://tv/{utc}" })).toBe(
+      "http://tv/{utc}",
+    );
+    expect(getCatchupTemplate({ url: "http://tv/stream", catchup: "flussonic" })).toBeNull();
+  });
+});
+
+describe("supportsCatchup", () => {
+  it("requires a usable template", () => {
+    expect(supportsCatchup({ url: "http://tv/live", catchup: "shift" })).toBe(true);
+    expect(supportsCatchup({ url: "http://xc/live/user/pass/1.ts", catchup: "xc" })).toBe(true);
+    expect(supportsCatchup({ url: "http://tv/stream", catchup: "xc" })).toBe(false);
+    expect(supportsCatchup({ url: "http://tv/stream", catchup: "flussonic" })).toBe(false);
+    expect(supportsCatchup({ url: "http://tv/live", catchup: "default" })).toBe(false);
+    expect(supportsCatchup({ url: "http://tv/live" })).toBe(false);
+  });
+});
+
+describe("buildCatchupSegments", () => {
+  const ranged: CatchupChannel = {
+    url: "http://tv/live",
+    catchup: "default",
+    catchupSource: "http://tv/vod/{utc}-{utcend}",
+  };
+
+  it("splits ranges with an end time into segments of at most an hour", () => {
+    const now = new Date(START.getTime() + 2.5 * HOUR);
+    const segments = buildCatchupSegments(ranged, START, 0, now);
+
+    expect(segments.map((segment) => segment.duration)).toEqual([
+      CATCHUP_SEGMENT_SECONDS * 1000,
+      CATCHUP_SEGMENT_SECONDS * 1000,
+      0.5 * HOUR,
+    ]);
+    expect(segments[1].url).toBe(`http://tv/vod/${seconds(START) + 3600}-${seconds(START) + 7200}`);
+    expect(segments[2].url).toBe(`http://tv/vod/${seconds(START) + 7200}-${seconds(now)}`);
+  });
+
+  it("requests open-ended templates as a single segment", () => {
+    const segments = buildCatchupSegments({ url: "http://tv/live", catchup: "shift" }, START, 0, NOW);
+    expect(segments).toEqual([
+      { url: `http://tv/live?utc=${seconds(START)}&lutc=${seconds(NOW)}`, duration: 3 * HOUR },
+    ]);
+  });
+
+  it("stays the tail offset behind now but never requests less than a minute", () => {
+    expect(buildCatchupSegments(ranged, START, 30 * 60, END)).toEqual([
+      { url: `http://tv/vod/${seconds(START)}-${seconds(START) + 1800}`, duration: 0.5 * HOUR },
+    ]);
+    expect(buildCatchupSegments(ranged, START, 24 * 60 * 60, END)[0].duration).toBe(60 * 1000);
+  });
+
+  it("returns no segments without a usable template", () => {
+    expect(buildCatchupSegments({ url: "http://tv/stream", catchup: "xc" }, START, 0, NOW)).toEqual([]);
+  });
+});
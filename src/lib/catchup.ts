@@ -0,0 +1,351 @@
+import type { PlayerSegment } from "@rtp2httpd/mpegts.js";
+import { Channel } from "../types/player";
+
+/**
+ * Catchup URL templates
+ *
+ * Supported catchup types (the M3U `catchup` attribute):
+ * - default: `catchup-source` is a full URL template (a source starting with "?" or "&" is appended instead)
+ * - append: `catchup-source` is appended to the live URL
+ * - shift: `utc`/`lutc` query parameters are appended to the live URL
+ * - flussonic (fs, flussonic-ts, flussonic-hls): the live URL is rewritten to Flussonic's archive URL
+ * - xc: the Xtream Codes live URL is rewritten to its /timeshift/ form
+ *
+ * Supported placeholders (times are Unix seconds unless formatted):
+ * - ${utc} {utc} ${start} {start}: programme start
+ * - ${utcend} {utcend} ${end} {end}: programme end
+ * - ${lutc} {lutc} ${now} {now} ${timestamp} {timestamp}: current time
+ * - ${offset} {offset}, {offset:N}: seconds between start and now (divided by N)
+ * - ${duration} {duration}, {duration:N}: seconds between start and end (divided by N)
+ * - {Y} {m} {d} {H} {M} {S}: local start time components
+ * - {utc:FORMAT} {utcend:FORMAT} {lutc:FORMAT}: formatted in UTC
+ * - {start:FORMAT} {end:FORMAT} {now:FORMAT}: formatted in local time
+ * - ${(b)FORMAT} ${(e)FORMAT}: start/end in local time, or UTC with a "|UTC" suffix
+ *
+ * FORMAT accepts yyyy/YYYY, yy, MM, dd/DD, HH/hh, mm, ss and the single-letter Y m d H M S style.
+ */
+export type CatchupType = "default" | "append" | "shift" | "flussonic" | "xc";
+
+export interface CatchupRange {
+  start: Date;
+  end: Date;
+  /** Time the request is made, used by lutc/offset placeholders */
+  now: Date;
+}
+
+/** Longest catchup request sent as one segment when the template carries an end time */
+export const CATCHUP_SEGMENT_SECONDS = 60 * 60;
+
+/** Shortest catchup range requested, so a large tail offset never produces an empty range */
+const MIN_CATCHUP_SECONDS = 60;
+
+const FORMAT_TOKEN_PATTERN = /yyyy|YYYY|yy|YY|MM|dd|DD|HH|hh|mm|ss|SS|[YmdHMS]/g;
+
+/**
+ * Normalize the catchup attribute into a known catchup type
+ * @returns The catchup type, or null when the channel has no usable catchup
+ */
+export function getCatchupType(channel: Pick<Channel, "catchup" | "catchupSource">): CatchupType | null {
+  const value = channel.catchup?.trim().toLowerCase();
+  if (!value) return null;
+
+  switch (value) {
+    case "append":
+      return channel.catchupSource ? "append" : null;
+    case "shift":
+    case "timeshift":
+      return "shift";
+    case "flussonic":
+    case "flussonic-hls":
+    case "flussonic-ts":
+    case "fs":
+      return "flussonic";
+    case "xc":
+      return "xc";
+    default:
+      // "default" and vendor-specific values both need a template
+      return channel.catchupSource ? "default" : null;
+  }
+}
+
+/**
+ * Format a date with a FORMAT pattern (see module comment)
+ */
+export function formatCatchupTime(date: Date, format: string, utc: boolean): string {
+  const parts = utc
+    ? {
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        day: date.getUTCDate(),
+        hour: date.getUTCHours(),
+        minute: date.getUTCMinutes(),
+        second: date.getUTCSeconds(),
+      }
+    : {
+        year: date.getFullYear(),
+        month: date.getMonth() + 1,
+        day: date.getDate(),
+        hour: date.getHours(),
+        minute: date.getMinutes(),
+        second: date.getSeconds(),
+      };
+  const pad = (value: number) => value.toString().padStart(2, "0");
+
+  return format.replace(FORMAT_TOKEN_PATTERN, (token) => {
+    switch (token) {
+      case "yyyy":
+      case "YYYY":
+      case "Y":
+        return parts.year.toString();
+      case "yy":
+      case "YY":
+        return pad(parts.year % 100);
+      case "MM":
+      case "m":
+        return pad(parts.month);
+      case "dd":
+      case "DD":
+      case "d":
+        return pad(parts.day);
+      case "HH":
+      case "hh":
+      case "H":
+        return pad(parts.hour);
+      case "mm":
+      case "M":
+        return pad(parts.minute);
+      default:
+        return pad(parts.second);
+    }
+  });
+}
+
+/**
+ * Expand every placeholder in a catchup template
+ * @param template - Template from catchup-source
+ * @param range - Requested start/end and current time
+ * @returns URL with all placeholders replaced
+ */
+export function expandCatchupTemplate(template: string, range: CatchupRange): string {
+  const { start, end, now } = range;
+  const toSeconds = (date: Date) => Math.floor(date.getTime() / 1000);
+  const durationSeconds = Math.max(0, toSeconds(end) - toSeconds(start));
+  const offsetSeconds = Math.max(0, toSeconds(now) - toSeconds(start));
+
+  const dates: Record<string, { date: Date; utc: boolean }> = {
+    utc: { date: start, utc: true },
+    utcend: { date: end, utc: true },
+    lutc: { date: now, utc: true },
+    start: { date: start, utc: false },
+    end: { date: end, utc: false },
+    now: { date: now, utc: false },
+  };
+  const values: Record<string, number> = {
+    utc: toSeconds(start),
+    start: toSeconds(start),
+    utcend: toSeconds(end),
+    end: toSeconds(end),
+    lutc: toSeconds(now),
+    now: toSeconds(now),
+    timestamp: toSeconds(now),
+    offset: offsetSeconds,
+    duration: durationSeconds,
+  };
+  const components: Record<string, string> = {
+    Y: formatCatchupTime(start, "Y", false),
+    m: formatCatchupTime(start, "m", false),
+    d: formatCatchupTime(start, "d", false),
+    H: formatCatchupTime(start, "H", false),
+    M: formatCatchupTime(start, "M", false),
+    S: formatCatchupTime(start, "S", false),
+  };
+
+  return (
+    template
+      // ${(b)yyyyMMddHHmmss} / ${(e)yyyyMMddHHmmss|UTC}
+      .replace(/\$\{\((b|e)\)([^}|]*)(?:\|([^}]*))?\}/g, (_match, which: string, format: string, zone?: string) =>
+        formatCatchupTime(which === "b" ? start : end, format, zone?.trim().toUpperCase() === "UTC"),
+      )
+      // ${name}, {name}, {name:argument}
+      .replace(/\$?\{([A-Za-z]+)(?::([^}]*))?\}/g, (match, name: string, argument?: string) => {
+        if (argument !== undefined) {
+          if (name === "duration" || name === "offset") {
+            const divisor = parseInt(argument);
+            return divisor > 0 ? Math.floor(values[name] / divisor).toString() : match;
+          }
+          const target = dates[name];
+          return target ? formatCatchupTime(target.date, argument, target.utc) : match;
+        }
+        if (name in values) return values[name].toString();
+        if (name in components) return components[name];
+        return match;
+      })
+  );
+}
+
+/**
+ * Append a query string fragment to a URL, fixing up "?" vs "&"
+ */
+function appendQuery(url: string, query: string): string {
+  const trimmed = query.replace(/^[?&]/, "");
+  if (!trimmed) return url;
+  return `${url}${url.includes("?") ? "&" : "?"}${trimmed}`;
+}
+
+/**
+ * Rewrite a Flussonic live URL into an archive URL template
+ */
+function getFlussonicTemplate(liveUrl: string): string | null {
+  const [path, query] = liveUrl.split("?");
+  const suffix = query ? `?${query}` : "";
+
+  const mpegtsMatch = path.match(/^(.+)\/mpegts$/);
+  if (mpegtsMatch) {
+    return `${mpegtsMatch[1]}/timeshift_abs-{utc}.ts${suffix}`;
+  }
+  const playlistMatch = path.match(/^(.+)\/([^/]+)\.(m3u8|ts)$/);
+  if (playlistMatch) {
+    const [, base, name, extension] = playlistMatch;
+    return extension === "ts"
+      ? `${base}/timeshift_abs-{utc}.ts${suffix}`
+      : `${base}/${name}-{utc}-{duration}.m3u8${suffix}`;
+  }
+  return null;
+}
+
+/**
+ * Rewrite an Xtream Codes live URL into its timeshift URL template
+ */
+function getXtreamTemplate(liveUrl: string): string | null {
+  const match = liveUrl.match(/^(https?:\/\/[^/]+)\/(?:live\/)?([^/]+)\/([^/]+)\/(\d+)(\.[A-Za-z0-9]+)?$/);
+  if (!match) return null;
+  const [, host, username, password, streamId, extension] = match;
+  return `${host}/timeshift/${username}/${password}/{duration:60}/{start:Y-m-d:H-M}/${streamId}${extension || ".ts"}`;
+}
+
+/**
+ * Get the unexpanded catchup URL template of a channel
+ * @returns Template, or null if the channel has no usable catchup
+ */
+export function getCatchupTemplate(channel: Pick<Channel, "url" | "catchup" | "catchupSource">): string | null {
+  const type = getCatchupType(channel);
+  const source = channel.catchupSource?.trim();
+
+  switch (type) {
+    case "default":
+      if (!source) return null;
+      return /^[?&]/.test(source) ? appendQuery(channel.url, source) : source;
+    case "append":
+      return source ? (/^[?&]/.test(source) ? appendQuery(channel.url, source) : channel.url + source) : null;
+    case "shift":
+      return appendQuery(channel.url, "utc={utc}&lutc={lutc}");
+    case "flussonic":
+      return getFlussonicTemplate(channel.url) ?? (source || null);
+    case "xc":
+      return getXtreamTemplate(channel.url) ?? (source || null);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether a channel can play catchup streams
+ * A flussonic or xc channel whose URL cannot be rewritten and that has no catchup-source has no template, so it cannot.
+ */
+export function supportsCatchup(channel: Pick<Channel, "url" | "catchup" | "catchupSource">): boolean {
+  return getCatchupTemplate(channel) !== null;
+}
+
+/**
+ * Build the catchup URL for a time range
+ * @param channel - Channel with catchup attributes
+ * @param start - Start of the requested range
+ * @param end - End of the requested range
+ * @param now - Current time (default: now)
+ * @returns Catchup URL, or null if the channel has no usable catchup
+ */
+export function buildCatchupUrl(
+  channel: Pick<Channel, "url" | "catchup" | "catchupSource">,
+  start: Date,
+  end: Date,
+  now: Date = new Date(),
+): string | null {
+  const template = getCatchupTemplate(channel);
+  return template ? expandCatchupTemplate(template, { start, end, now }) : null;
+}
+
+/**
+ * Whether a template encodes an end time or duration
+ * Templates without one are open-ended streams that must not be split into segments.
+ */
+function hasRangeEnd(template: string): boolean {
+  return /\$\{\(e\)|\$?\{(?:utcend|end|duration)(?::[^}]*)?\}/.test(template);
+}
+
+/**
+ * Build the playback segments for catchup from a given start time up to now
+ * Long ranges are split into segments of at most CATCHUP_SEGMENT_SECONDS when the template has an end time.
+ * @param channel - Channel with catchup attributes
+ * @param startTime - Where playback should begin
+ * @param tailOffset - Seconds to stay behind the current time (0 means up to now)
+ * @param now - Current time (default: now)
+ * @returns Segments for the player, durations in ms, empty if the channel has no usable catchup
+ */
+export function buildCatchupSegments(
+  channel: Pick<Channel, "url" | "catchup" | "catchupSource">,
+  startTime: Date,
+  tailOffset: number = 0,
+  now: Date = new Date(),
+): PlayerSegment[] {
+  const template = getCatchupTemplate(channel);
+  if (!template) return [];
+
+  const startMs = startTime.getTime();
+  const endMs = Math.max(startMs + MIN_CATCHUP_SECONDS * 1000, now.getTime() - Math.max(0, tailOffset) * 1000);
+
+  if (!hasRangeEnd(template)) {
+    return [
+      {
+        url: expandCatchupTemplate(template, { start: startTime, end: new Date(endMs), now }),
+        duration: endMs - startMs,
+      },
+    ];
+  }
+
+  const segments: PlayerSegment[] = [];
+  for (let segmentStart = startMs; segmentStart < endMs; segmentStart += CATCHUP_SEGMENT_SECONDS * 1000) {
+    const segmentEnd = Math.min(endMs, segmentStart + CATCHUP_SEGMENT_SECONDS * 1000);
+    segments.push({
+      url: expandCatchupTemplate(template, { start: new Date(segmentStart), end: new Date(segmentEnd), now }),
+      duration: segmentEnd - segmentStart,
+    });
+  }
+  return segments;
+}
+
+/**
+ * Get the earliest time the channel's archive still covers
+ * @param channel - Channel with an optional catchupDays
+ * @param now - Current time (default: now)
+ * @returns Start of the catchup window, or null when the archive depth is unknown
+ */
+export function getCatchupWindowStart(channel: Pick<Channel, "catchupDays">, now: Date = new Date()): Date | null {
+  if (!channel.catchupDays) return null;
+  return new Date(now.getTime() - channel.catchupDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Clamp a requested catchup start time into the channel's archive window
+ * @returns The time to play from and whether it had to be moved
+ */
+export function clampToCatchupWindow(
+  channel: Pick<Channel, "catchupDays">,
+  time: Date,
+  now: Date = new Date(),
+): { time: Date; clamped: boolean } {
+  const windowStart = getCatchupWindowStart(channel, now);
+  if (windowStart && time < windowStart) {
+    return { time: windowStart, clamped: true };
+  }
+  return { time, clamped: false };
+}
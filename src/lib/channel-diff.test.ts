@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { Channel } from "../types/player";
+import { diffChannels, hasChannelChanges } from "./channel-diff";
+
+function channel(id: string, overrides: Partial<Channel> = {}): Channel {
+  return { id, name: id, group: "", url: `http://tv/${id}`, attributes: {}, sources: [], ...overrides };
+}
+
+describe("diffChannels", () => {
+  it("keeps the current objects of unchanged channels", () => {
+    const previous = [channel("a"), channel("b")];
+    const diff = diffChannels(previous, [channel("a"), channel("b")]);
+
+    expect(diff.channels[0]).toBe(previous[0]);
+    expect(diff.channels[1]).toBe(previous[1]);
+    expect(diff).toMatchObject({ added: [], removed: [], changed: [] });
+    expect(hasChannelChanges(diff, previous)).toBe(false);
+  });
+
+  it("reports added, removed and changed channels by id", () => {
+    const previous = [channel("a"), channel("b"), channel("c")];
+    const renamed = channel("b", { name: "B2" });
+    const added = channel("d");
+    const diff = diffChannels(previous, [previous[0], renamed, added]);
+
+    expect(diff.added).toEqual([added]);
+    expect(diff.removed).toEqual([previous[2]]);
+    expect(diff.changed).toEqual([renamed]);
+    expect(diff.channels[1]).toBe(renamed);
+    expect(hasChannelChanges(diff, previous)).toBe(true);
+  });
+
+  it("treats a reordered lineup as a change", () => {
+    const previous = [channel("a"), channel("b")];
+    const diff = diffChannels(previous, [channel("b"), channel("a")]);
+
+    expect(diff.channels).toEqual([previous[1], previous[0]]);
+    expect(diff.changed).toEqual([]);
+    expect(hasChannelChanges(diff, previous)).toBe(true);
+  });
+});
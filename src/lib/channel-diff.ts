@@ -0,0 +1,62 @@
+import { Channel } from "../types/player";
+
+/** Result of comparing a refreshed lineup with the current one */
+export interface ChannelDiff {
+  added: Channel[];
+  removed: Channel[];
+  /** New versions of channels whose id stayed the same but whose content changed */
+  changed: Channel[];
+  /**
+   * The refreshed lineup, where every unchanged channel is the object from the current lineup,
+   * so components and effects keyed on channel identity do not re-run
+   */
+  channels: Channel[];
+}
+
+/**
+ * Compare two channels by content
+ */
+function isSameChannel(a: Channel, b: Channel): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Diff a refreshed lineup against the current one by channel id
+ * @param previous - Lineup currently shown
+ * @param next - Freshly parsed lineup
+ * @returns Added, removed and changed channels plus the lineup to display
+ */
+export function diffChannels(previous: Channel[], next: Channel[]): ChannelDiff {
+  const previousById = new Map(previous.map((channel) => [channel.id, channel]));
+  const nextIds = new Set(next.map((channel) => channel.id));
+  const added: Channel[] = [];
+  const changed: Channel[] = [];
+
+  const channels = next.map((channel) => {
+    const existing = previousById.get(channel.id);
+    if (!existing) {
+      added.push(channel);
+      return channel;
+    }
+    if (isSameChannel(existing, channel)) {
+      return existing;
+    }
+    changed.push(channel);
+    return channel;
+  });
+
+  const removed = previous.filter((channel) => !nextIds.has(channel.id));
+  return { added, removed, changed, channels };
+}
+
+/**
+ * Check whether a diff contains any change, including reordering
+ */
+export function hasChannelChanges(diff: ChannelDiff, previous: Channel[]): boolean {
+  return (
+    diff.added.length > 0 ||
+    diff.removed.length > 0 ||
+    diff.changed.length > 0 ||
+    diff.channels.some((channel, index) => channel !== previous[index])
+  );
+}
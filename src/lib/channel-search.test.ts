@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { Channel } from "../types/player";
+import { findChannelByNumber, getChannelNumber, normalizeSearchText, searchChannels } from "./channel-search";
+
+function channel(name: string, overrides: Partial<Channel> = {}): Channel {
+  return { id: name, name, group: "", url: `http://tv/${name}`, attributes: {}, sources: [], ...overrides };
+}
+
+const channels = [
+  channel("CCTV-1 综合", { group: "央视" }),
+  channel("CCTV-5 体育", { group: "央视" }),
+  channel("浙江卫视", { group: "卫视", tvgName: "ZJTV" }),
+  channel("湖南卫视", { group: "卫视" }),
+  channel("Discovery", { group: "Documentary", tvgChno: 12 }),
+];
+const names = (results: Channel[]) => results.map((result) => result.name);
+
+describe("normalizeSearchText", () => {
+  it("folds width and case and drops separators", () => {
+    expect(normalizeSearchText("ＣＣＴＶ－５ HD")).toBe("cctv5hd");
+    expect(normalizeSearchText("【浙江】卫视 (高清)")).toBe("浙江卫视高清");
+  });
+});
+
+describe("searchChannels", () => {
+  it("ranks exact and prefix name matches before substrings", () => {
+    expect(names(searchChannels(channels, "卫视"))).toEqual(["浙江卫视", "湖南卫视"]);
+    expect(names(searchChannels(channels, "cctv"))).toEqual(["CCTV-1 综合", "CCTV-5 体育"]);
+    expect(names(searchChannels(channels, "cctv 5"))[0]).toBe("CCTV-5 体育");
+  });
+
+  it("matches full pinyin and pinyin initials", () => {
+    expect(names(searchChannels(channels, "zhejiang"))).toEqual(["浙江卫视"]);
+    expect(names(searchChannels(channels, "hnws"))).toEqual(["湖南卫视"]);
+    expect(names(searchChannels(channels, "cctv5ty"))).toEqual(["CCTV-5 体育"]);
+  });
+
+  it("matches tvg-name and group", () => {
+    expect(names(searchChannels(channels, "zjtv"))).toEqual(["浙江卫视"]);
+    expect(names(searchChannels(channels, "documentary"))).toEqual(["Discovery"]);
+  });
+
+  it("tolerates a typo but not a different digit", () => {
+    expect(names(searchChannels(channels, "dicsovery"))).toEqual(["Discovery"]);
+    expect(names(searchChannels(channels, "cctv6"))).toEqual([]);
+  });
+
+  it("puts the channel with that number first, by tvg-chno or position", () => {
+    expect(names(searchChannels(channels, "12"))).toEqual(["Discovery"]);
+    expect(names(searchChannels(channels, "2"))[0]).toBe("CCTV-5 体育");
+    expect(names(searchChannels(channels, "5"))).not.toContain("Discovery");
+  });
+
+  it("returns nothing for an empty query and honours the limit", () => {
+    expect(searchChannels(channels, "  ")).toEqual([]);
+    expect(searchChannels(channels, "卫视", 1)).toHaveLength(1);
+  });
+});
+
+describe("channel numbers", () => {
+  const lineup = [channel("A"), channel("B", { tvgChno: 1 }), channel("C")];
+
+  it("shows tvg-chno, or the 1-based position without one", () => {
+    expect(lineup.map((entry) => getChannelNumber(lineup, entry))).toEqual([1, 1, 3]);
+    expect(getChannelNumber(lineup, channel("A"))).toBeUndefined();
+  });
+
+  it("resolves a typed number by tvg-chno first, then by position", () => {
+    expect(findChannelByNumber(lineup, 1)?.name).toBe("B");
+    expect(findChannelByNumber(lineup, 3)?.name).toBe("C");
+    expect(findChannelByNumber(lineup, 4)).toBeNull();
+  });
+});
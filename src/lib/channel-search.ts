@@ -0,0 +1,164 @@
+import { pinyin } from "pinyin-pro";
+import { Channel } from "../types/player";
+
+/** Searchable forms of one channel, computed once per channel object */
+interface ChannelSearchEntry {
+  name: string;
+  tvgName: string;
+  group: string;
+  /** Name with Chinese characters replaced by toneless pinyin, e.g. "zhejiangweishi" */
+  pinyin: string;
+  /** Pinyin initials with other characters kept, e.g. "zjws" or "cctv5ty" */
+  initials: string;
+}
+
+const entryCache = new WeakMap<Channel, ChannelSearchEntry>();
+
+/**
+ * Normalize text for matching: full-width to half-width, lowercase, without spaces and separators
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[\s\-_·.|/()[\]【】（）]+/g, "");
+}
+
+/**
+ * Build the pinyin and initials forms of a name
+ */
+function toPinyin(name: string): { full: string; initials: string } {
+  const syllables = pinyin(name, { toneType: "none", type: "all", nonZh: "consecutive" });
+  let full = "";
+  let initials = "";
+  for (const syllable of syllables) {
+    if (syllable.isZh) {
+      full += syllable.pinyin;
+      initials += syllable.first;
+    } else {
+      const text = normalizeSearchText(syllable.origin);
+      full += text;
+      initials += text;
+    }
+  }
+  return { full: normalizeSearchText(full), initials: normalizeSearchText(initials) };
+}
+
+function getEntry(channel: Channel): ChannelSearchEntry {
+  let entry = entryCache.get(channel);
+  if (!entry) {
+    const { full, initials } = toPinyin(channel.name);
+    entry = {
+      name: normalizeSearchText(channel.name),
+      tvgName: normalizeSearchText(channel.tvgName || ""),
+      group: normalizeSearchText(channel.group),
+      pinyin: full,
+      initials,
+    };
+    entryCache.set(channel, entry);
+  }
+  return entry;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+ * Stops early and returns max + 1 once the distance is known to exceed max.
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const beforeRow = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforeRow[j - 2] + 1);
+      }
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return row[b.length];
+}
+
+/**
+ * Score how well a query matches one field; 0 means no match
+ * Exact > prefix > substring (earlier is better) > typo-tolerant prefix
+ */
+function scoreField(field: string, query: string, weight: number): number {
+  if (!field) return 0;
+  if (field === query) return weight;
+  if (field.startsWith(query)) return weight * 0.9;
+  const index = field.indexOf(query);
+  if (index !== -1) return weight * (0.8 - Math.min(index, 20) * 0.005);
+
+  // Typos: compare against the field's prefix of the same length, allowing 1 edit per 4 characters.
+  // Digits must match exactly, otherwise "cctv5" would find CCTV-1.
+  if (query.length >= 3) {
+    const maxEdits = Math.max(1, Math.floor(query.length / 4));
+    const queryDigits = query.replace(/\D/g, "");
+    let best = maxEdits + 1;
+    for (const prefix of [field.slice(0, query.length), field.slice(0, query.length + 1)]) {
+      if (prefix.replace(/\D/g, "") !== queryDigits) continue;
+      best = Math.min(best, editDistance(prefix, query, maxEdits));
+    }
+    if (best <= maxEdits) return weight * (0.5 - best * 0.1);
+  }
+  return 0;
+}
+
+/**
+ * Search channels by name, tvg-name, group, pinyin, pinyin initials and channel number
+ * @param channels - Channels in list order (positions serve as numbers when tvg-chno is missing)
+ * @param query - Text typed by the user
+ * @param limit - Maximum number of results
+ * @returns Matching channels, best match first; ties keep list order
+ */
+export function searchChannels(channels: Channel[], query: string, limit = Infinity): Channel[] {
+  const normalized = normalizeSearchText(query);
+  if (!normalized) return [];
+  const isNumber = /^\d+$/.test(normalized);
+
+  const scored: { channel: Channel; score: number; index: number }[] = [];
+  channels.forEach((channel, index) => {
+    const entry = getEntry(channel);
+    // tvg-chno, or the 1-based position in the list when the playlist has none
+    const number = String(channel.tvgChno ?? index + 1);
+    const score = Math.max(
+      isNumber && number === normalized ? 1000 : 0,
+      scoreField(entry.name, normalized, 100),
+      scoreField(entry.pinyin, normalized, 90),
+      scoreField(entry.initials, normalized, 85),
+      scoreField(entry.tvgName, normalized, 70),
+      scoreField(entry.group, normalized, 40),
+    );
+    if (score > 0) scored.push({ channel, score, index });
+  });
+
+  scored.sort((a, b) => b.score - a.score || a.index - b.index);
+  return scored.slice(0, limit).map(({ channel }) => channel);
+}
+
+/**
+ * Get the number shown for a channel: its tvg-chno, or its 1-based position in the list
+ * @returns The number, or undefined when the channel is not in the list
+ */
+export function getChannelNumber(channels: Channel[], channel: Channel): number | undefined {
+  const index = channels.indexOf(channel);
+  return index === -1 ? undefined : (channel.tvgChno ?? index + 1);
+}
+
+/**
+ * Find the channel a typed number refers to
+ * A matching tvg-chno wins; otherwise the number is taken as the 1-based position in the list.
+ */
+export function findChannelByNumber(channels: Channel[], number: number): Channel | null {
+  return channels.find((channel) => channel.tvgChno === number) ?? channels[number - 1] ?? null;
+}
@@ -0,0 +1,109 @@
+/**
+ * HTTP helpers for periodic refreshes: conditional requests and retry with backoff
+ */
+
+/** Validators from a previous response, sent back as If-None-Match / If-Modified-Since */
+export interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export type ConditionalFetchResult =
+  | { modified: true; response: Response; validators: CacheValidators }
+  | { modified: false; validators: CacheValidators };
+
+export interface RetryOptions {
+  /** Retries after the first attempt (default 4) */
+  retries?: number;
+  /** Delay before the first retry, doubled for each further retry (default 1s) */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay (default 60s) */
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Fetch a URL unless it is unchanged since the previous response
+ * The browser HTTP cache is bypassed so the server sees our validators and can answer 304.
+ * @param url - Resource URL
+ * @param validators - Validators of the copy we already have, if any
+ * @param signal - Aborts the request
+ * @returns The response when modified, otherwise only the (unchanged) validators
+ */
+export async function conditionalFetch(
+  url: string,
+  validators?: CacheValidators,
+  signal?: AbortSignal,
+): Promise<ConditionalFetchResult> {
+  const headers: Record<string, string> = {};
+  if (validators?.etag) headers["If-None-Match"] = validators.etag;
+  if (validators?.lastModified) headers["If-Modified-Since"] = validators.lastModified;
+
+  const response = await fetch(url, {
+    mode: url.startsWith("http") ? "cors" : "same-origin",
+    cache: "no-store",
+    headers,
+    signal,
+  });
+
+  if (response.status === 304 && validators) {
+    return { modified: false, validators };
+  }
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+
+  return {
+    modified: true,
+    response,
+    validators: {
+      etag: response.headers.get("ETag") || undefined,
+      lastModified: response.headers.get("Last-Modified") || undefined,
+    },
+  };
+}
+
+/**
+ * Wait for a delay unless aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", handleAbort);
+      resolve();
+    }, ms);
+    const handleAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", handleAbort, { once: true });
+  });
+}
+
+/**
+ * Run an async task, retrying failures with exponential backoff and jitter
+ * Aborting the signal stops further attempts and rejects with the abort reason.
+ * @param task - Task to run; receives the 0-based attempt number
+ * @param options - Retry count, delays, abort signal and retry callback
+ * @returns Result of the first successful attempt
+ */
+export async function retryWithBackoff<T>(task: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { retries = 4, baseDelayMs = 1000, maxDelayMs = 60 * 1000, signal, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (signal?.aborted || attempt >= retries) throw error;
+      // Up to 25% jitter so many clients do not retry in lockstep
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (1 + Math.random() * 0.25);
+      onRetry?.(error, attempt + 1, delay);
+      await sleep(delay, signal);
+    }
+  }
+}
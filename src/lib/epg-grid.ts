@@ -0,0 +1,84 @@
+import { EPGProgram } from "../types/player";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Furthest the grid reaches into the past and the future, however long the guide is */
+const MAX_GRID_SPAN_MS = 7 * 24 * HOUR_MS;
+
+/**
+ * Get the slice of a uniformly sized list that intersects the viewport
+ * @param itemSize - Size of one item in pixels
+ * @param count - Number of items
+ * @param offset - Scroll offset in pixels
+ * @param viewportSize - Visible size in pixels
+ * @param overscan - Extra items rendered on each side
+ * @returns Index range, end exclusive
+ */
+export function getVisibleIndexRange(
+  itemSize: number,
+  count: number,
+  offset: number,
+  viewportSize: number,
+  overscan = 0,
+): { start: number; end: number } {
+  if (count === 0 || itemSize <= 0) return { start: 0, end: 0 };
+  const start = Math.max(0, Math.floor(offset / itemSize) - overscan);
+  const end = Math.min(count, Math.ceil((offset + viewportSize) / itemSize) + overscan);
+  return { start: Math.min(start, end), end };
+}
+
+/**
+ * Get the programs overlapping a time range
+ * @param programs - Programs sorted by start time, not overlapping
+ * @param start - Range start
+ * @param end - Range end
+ */
+export function getProgramsInRange(programs: EPGProgram[], start: Date, end: Date): EPGProgram[] {
+  const from = start.getTime();
+  const to = end.getTime();
+
+  // First program ending after the range start
+  let low = 0;
+  let high = programs.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (programs[mid].end.getTime() <= from) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  const result: EPGProgram[] = [];
+  for (let i = low; i < programs.length && programs[i].start.getTime() < to; i++) {
+    result.push(programs[i]);
+  }
+  return result;
+}
+
+/**
+ * Get the time span the grid covers
+ * Spans every listed program, rounded out to whole hours, always including the
+ * hours around now and capped to a week on either side.
+ * @param programLists - Programs of each channel in the grid
+ * @param now - Current time (default: now)
+ */
+export function getGridTimeRange(programLists: EPGProgram[][], now: Date = new Date()): { start: Date; end: Date } {
+  let start = now.getTime() - 2 * HOUR_MS;
+  let end = now.getTime() + 4 * HOUR_MS;
+
+  for (const programs of programLists) {
+    if (programs.length === 0) continue;
+    start = Math.min(start, programs[0].start.getTime());
+    end = Math.max(end, programs[programs.length - 1].end.getTime());
+  }
+
+  // Whole local hours, so the axis labels fall on the hour in any time zone
+  const rangeStart = new Date(Math.max(start, now.getTime() - MAX_GRID_SPAN_MS));
+  rangeStart.setMinutes(0, 0, 0);
+  const rangeEnd = new Date(Math.min(end, now.getTime() + MAX_GRID_SPAN_MS));
+  if (rangeEnd.getMinutes() || rangeEnd.getSeconds() || rangeEnd.getMilliseconds()) {
+    rangeEnd.setMinutes(60, 0, 0);
+  }
+  return { start: rangeStart, end: rangeEnd };
+}
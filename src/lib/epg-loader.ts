@@ -0,0 +1,214 @@
+import type { Channel, EPGSource } from "../types/player";
+import type { EPGData, EPGParseWarning } from "./epg-parser";
+import { EPGLoadProgress, EPGStreamSource, getResponseStream, streamEPG } from "./epg-stream";
+import { CacheValidators, conditionalFetch, retryWithBackoff, RetryOptions } from "./conditional-fetch";
+
+export type { EPGLoadProgress } from "./epg-stream";
+
+export interface EPGLoaderRequest {
+  source: EPGStreamSource;
+  channelIds?: string[];
+  timezone?: string;
+}
+
+export type EPGLoaderResponse =
+  | { type: "progress"; progress: EPGLoadProgress }
+  | { type: "warning"; warning: EPGParseWarning }
+  | { type: "done"; data: EPGData }
+  | { type: "error"; message: string };
+
+export interface LoadEPGOptions {
+  /** Timezone for timestamps without an offset (see EPGParseOptions.timezone) */
+  timezone?: string;
+  onProgress?: (progress: EPGLoadProgress) => void;
+  onWarning?: (warning: EPGParseWarning) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Load an XMLTV guide (plain or gzip) off the main thread
+ * Parsing happens in a Web Worker; without Worker support, or when the browser cannot transfer
+ * a byte stream to the worker, it streams on the main thread instead.
+ * @param source - Guide URL (absolute or relative to the page), a Blob, or the body of a response (see getResponseStream)
+ * @param channelIds - Playlist ids to keep; all channels are kept when omitted
+ * @param options - Timezone, progress/warning callbacks and abort signal
+ * @returns Parsed EPG data
+ */
+export function loadEPG(
+  source: EPGStreamSource,
+  channelIds?: Iterable<string>,
+  options: LoadEPGOptions = {},
+): Promise<EPGData> {
+  const { timezone, onProgress, onWarning, signal } = options;
+  // Workers resolve relative URLs against their own script, so resolve against the page here
+  const resolvedSource = typeof source === "string" ? new URL(source, window.location.href).href : source;
+  const ids = channelIds ? Array.from(channelIds) : undefined;
+
+  if (typeof Worker === "undefined") {
+    return streamEPG(resolvedSource, { channelIds: ids, timezone, onProgress, onWarning, signal });
+  }
+
+  return new Promise<EPGData>((resolve, reject) => {
+    const worker = new Worker(new URL("./epg-loader.worker.ts", import.meta.url), { type: "module" });
+    let warningCount = 0;
+    let firstWarning: EPGParseWarning | null = null;
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", handleAbort);
+    };
+    const handleAbort = () => {
+      cleanup();
+      reject(signal?.reason ?? new DOMException("EPG loading aborted", "AbortError"));
+    };
+
+    if (signal?.aborted) {
+      handleAbort();
+      return;
+    }
+    signal?.addEventListener("abort", handleAbort);
+
+    worker.onmessage = (event: MessageEvent<EPGLoaderResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case "progress":
+          onProgress?.(message.progress);
+          break;
+        case "warning":
+          warningCount++;
+          firstWarning ??= message.warning;
+          onWarning?.(message.warning);
+          break;
+        case "done":
+          if (warningCount > 0 && !onWarning) {
+            console.warn(`Skipped ${warningCount} EPG programme(s) with malformed timestamps, e.g.`, firstWarning);
+          }
+          cleanup();
+          resolve(message.data);
+          break;
+        case "error":
+          cleanup();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || "EPG worker failed"));
+    };
+
+    const request: EPGLoaderRequest = { source: resolvedSource, channelIds: ids, timezone };
+    if (typeof resolvedSource === "string" || resolvedSource instanceof Blob) {
+      worker.postMessage(request);
+      return;
+    }
+    try {
+      // The stream moves to the worker, so the body is parsed while it downloads
+      worker.postMessage(request, [resolvedSource.body]);
+    } catch (error) {
+      // Older browsers cannot transfer streams; the body is still unread, so parse it here
+      console.warn("Cannot transfer EPG stream to worker, parsing on the main thread:", error);
+      cleanup();
+      streamEPG(resolvedSource, { channelIds: ids, timezone, onProgress, onWarning, signal }).then(resolve, reject);
+    }
+  });
+}
+
+export interface LoadEPGSourcesOptions {
+  onProgress?: (progress: EPGLoadProgress) => void;
+  /** Retry failed guide downloads; no retries when omitted */
+  retry?: Omit<RetryOptions, "signal">;
+  signal?: AbortSignal;
+}
+
+/** Last parsed copy of each guide URL, reused while the server answers 304 */
+const guideCache = new Map<string, { validators: CacheValidators; channelKey: string; data: EPGData }>();
+
+/**
+ * Add up the progress of guides loading side by side
+ * The total is only known once every guide has reported its size.
+ */
+function sumProgress(progress: EPGLoadProgress[]): EPGLoadProgress {
+  const known = progress.every((entry) => entry.totalBytes !== undefined);
+  return {
+    loadedBytes: progress.reduce((sum, entry) => sum + entry.loadedBytes, 0),
+    totalBytes: known ? progress.reduce((sum, entry) => sum + (entry.totalBytes ?? 0), 0) : undefined,
+    programmes: progress.reduce((sum, entry) => sum + entry.programmes, 0),
+  };
+}
+
+/**
+ * Collect the names a guide may use for a channel (tvg-id, tvg-name and display name)
+ */
+export function getGuideChannelIds(channels: Channel[]): Set<string> {
+  const ids = new Set<string>();
+  channels.forEach((channel) => {
+    if (channel.tvgId) ids.add(channel.tvgId);
+    if (channel.tvgName) ids.add(channel.tvgName);
+    ids.add(channel.name);
+  });
+  return ids;
+}
+
+/**
+ * Load the guides of several playlist sources and merge them
+ * URL guides are requested conditionally (ETag / Last-Modified), so a guide unchanged
+ * since the previous call is not downloaded or parsed again.
+ * Earlier sources win when two guides cover the same channel id; failed guides are logged and skipped.
+ * @param epgSources - Guides with the channels each should be filtered to, in priority order
+ * @param options - Progress callback (summed over all guides), retry policy and abort signal
+ * @returns Merged EPG data
+ */
+export async function loadEPGSources(epgSources: EPGSource[], options: LoadEPGSourcesOptions = {}): Promise<EPGData> {
+  const { onProgress, retry, signal } = options;
+  const progress: EPGLoadProgress[] = epgSources.map(() => ({ loadedBytes: 0, programmes: 0 }));
+  const reportProgress = (index: number, entry: EPGLoadProgress) => {
+    progress[index] = entry;
+    onProgress?.(sumProgress(progress));
+  };
+
+  const loadOne = async (epgSource: EPGSource, index: number): Promise<EPGData> => {
+    const channelIds = getGuideChannelIds(epgSource.channels);
+    const loadOptions = {
+      timezone: epgSource.timezone,
+      onProgress: (entry: EPGLoadProgress) => reportProgress(index, entry),
+      signal,
+    };
+    if (typeof epgSource.source !== "string") {
+      return loadEPG(epgSource.source, channelIds, loadOptions);
+    }
+
+    const url = new URL(epgSource.source, window.location.href).href;
+    const channelKey = Array.from(channelIds).sort().join("\n");
+    const cached = guideCache.get(url);
+    const reusable = cached?.channelKey === channelKey ? cached : undefined;
+
+    const result = await retryWithBackoff(() => conditionalFetch(url, reusable?.validators, signal), {
+      retries: 0,
+      ...retry,
+      signal,
+    });
+    if (!result.modified) {
+      // Nothing to download, so it no longer holds back the total
+      reportProgress(index, { loadedBytes: 0, totalBytes: 0, programmes: 0 });
+      return reusable?.data ?? {};
+    }
+
+    const data = await loadEPG(getResponseStream(result.response), channelIds, loadOptions);
+    guideCache.set(url, { validators: result.validators, channelKey, data });
+    return data;
+  };
+
+  const results = await Promise.allSettled(epgSources.map(loadOne));
+  const merged: EPGData = {};
+  results.forEach((result, index) => {
+    if (result.status === "rejected") {
+      if (!signal?.aborted) console.error(`Failed to load EPG ${epgSources[index].label}:`, result.reason);
+      return;
+    }
+    Object.entries(result.value).forEach(([channelId, programs]) => {
+      merged[channelId] ??= programs;
+    });
+  });
+  return merged;
+}
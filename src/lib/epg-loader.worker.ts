@@ -0,0 +1,22 @@
+import { streamEPG } from "./epg-stream";
+import type { EPGLoaderRequest, EPGLoaderResponse } from "./epg-loader";
+
+// Typed as Worker so postMessage/onmessage resolve without the WebWorker lib
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = async (event: MessageEvent<EPGLoaderRequest>) => {
+  const { source, channelIds, timezone } = event.data;
+  const post = (message: EPGLoaderResponse) => ctx.postMessage(message);
+
+  try {
+    const data = await streamEPG(source, {
+      channelIds,
+      timezone,
+      onProgress: (progress) => post({ type: "progress", progress }),
+      onWarning: (warning) => post({ type: "warning", warning }),
+    });
+    post({ type: "done", data });
+  } catch (error) {
+    post({ type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { Channel, EPGProgram } from "../types/player";
+import { EPGData, fillEPGGaps, findProgramIndex, getEPGChannelId } from "./epg-parser";
+
+const HOUR = 60 * 60 * 1000;
+const BASE = Date.UTC(2026, 0, 1);
+
+function program(id: string, startHour: number, endHour: number): EPGProgram {
+  return { id, title: id, start: new Date(BASE + startHour * HOUR), end: new Date(BASE + endHour * HOUR) };
+}
+
+function channel(overrides: Partial<Channel>): Channel {
+  return {
+    id: overrides.name ?? "channel",
+    name: "channel",
+    group: "",
+    url: "http://example.com/stream",
+    attributes: {},
+    sources: [],
+    ...overrides,
+  };
+}
+
+describe("getEPGChannelId", () => {
+  const epgData: EPGData = {
+    "CCTV1.cn": [program("news", 0, 1)],
+    "cctv-5": [program("sports", 0, 1)],
+    湖南卫视: [program("show", 0, 1)],
+  };
+
+  it("matches tvg-id exactly", () => {
+    expect(getEPGChannelId(channel({ tvgId: "CCTV1.cn" }), epgData)).toBe("CCTV1.cn");
+  });
+
+  it("falls back to tvg-name and then the channel name", () => {
+    expect(getEPGChannelId(channel({ tvgId: "missing", tvgName: "湖南卫视" }), epgData)).toBe("湖南卫视");
+    expect(getEPGChannelId(channel({ tvgId: "missing", name: "湖南卫视" }), epgData)).toBe("湖南卫视");
+  });
+
+  it("ignores case, separators, width and quality suffixes", () => {
+    expect(getEPGChannelId(channel({ name: "CCTV 5 HD" }), epgData)).toBe("cctv-5");
+    expect(getEPGChannelId(channel({ name: "ＣＣＴＶ－５高清" }), epgData)).toBe("cctv-5");
+    expect(getEPGChannelId(channel({ name: "湖南卫视 4K" }), epgData)).toBe("湖南卫视");
+  });
+
+  it("resolves through aliases", () => {
+    const aliases = { "CCTV1.cn": ["CCTV-1 综合", "CCTV1"] };
+    expect(getEPGChannelId(channel({ name: "CCTV-1综合" }), epgData)).toBeNull();
+    expect(getEPGChannelId(channel({ name: "CCTV-1综合" }), epgData, aliases)).toBe("CCTV1.cn");
+  });
+
+  it("ignores aliases of channels without a guide", () => {
+    expect(getEPGChannelId(channel({ name: "Other" }), epgData, { missing: ["Other"] })).toBeNull();
+  });
+
+  it("returns null when nothing matches", () => {
+    expect(getEPGChannelId(channel({ tvgId: "x", tvgName: "y", name: "z" }), epgData)).toBeNull();
+  });
+});
+
+describe("findProgramIndex", () => {
+  // 00:00-01:00, 01:00-02:00, gap, 03:00-04:00
+  const programs = [program("a", 0, 1), program("b", 1, 2), program("c", 3, 4)];
+  const at = (hour: number) => new Date(BASE + hour * HOUR);
+
+  it("returns -1 for an empty list", () => {
+    expect(findProgramIndex([], at(0))).toBe(-1);
+  });
+
+  it("returns -1 before the first programme", () => {
+    expect(findProgramIndex(programs, at(-1))).toBe(-1);
+  });
+
+  it("finds the programme airing inside its range", () => {
+    expect(findProgramIndex(programs, at(0.5))).toBe(0);
+    expect(findProgramIndex(programs, at(3.5))).toBe(2);
+  });
+
+  it("treats the start as inclusive and the end as exclusive", () => {
+    expect(findProgramIndex(programs, at(0))).toBe(0);
+    expect(findProgramIndex(programs, at(1))).toBe(1);
+    expect(findProgramIndex(programs, at(3))).toBe(2);
+    expect(findProgramIndex(programs, at(2))).toBe(-1);
+  });
+
+  it("returns -1 in a gap", () => {
+    expect(findProgramIndex(programs, at(2.5))).toBe(-1);
+  });
+
+  it("returns -1 at and after the end of the last programme", () => {
+    expect(findProgramIndex(programs, at(4))).toBe(-1);
+    expect(findProgramIndex(programs, at(10))).toBe(-1);
+  });
+});
+
+describe("fillEPGGaps", () => {
+  const now = new Date(BASE + 5 * HOUR);
+  const catchupChannel = channel({ name: "News", tvgId: "news", catchup: "shift", catchupDays: 0.25 });
+
+  it("fills the catchup window with 2-hour blocks around existing programmes", () => {
+    const epgData: EPGData = { news: [program("morning", 1, 2)] };
+    const programs = fillEPGGaps(epgData, [catchupChannel], 48, now).news;
+
+    // 6 hours back from 05:00 aligns down to the previous day's 22:00; the window ends at the next block boundary, 06:00
+    expect(programs.map((p) => [p.start.getTime(), p.end.getTime()])).toEqual([
+      [BASE - 2 * HOUR, BASE],
+      [BASE, BASE + HOUR],
+      [BASE + HOUR, BASE + 2 * HOUR],
+      [BASE + 2 * HOUR, BASE + 4 * HOUR],
+      [BASE + 4 * HOUR, BASE + 6 * HOUR],
+    ]);
+    expect(programs[2].id).toBe("morning");
+    expect(programs.filter((p) => p.id !== "morning").every((p) => p.title === undefined)).toBe(true);
+  });
+
+  it("uses the default lookback when the archive depth is unknown", () => {
+    const programs = fillEPGGaps({}, [channel({ name: "News", catchup: "shift" })], 4, now).News;
+    expect(programs[0].start.getTime()).toBe(BASE);
+    expect(programs[programs.length - 1].end.getTime()).toBe(BASE + 6 * HOUR);
+  });
+
+  it("leaves channels without catchup and the input untouched", () => {
+    const epgData: EPGData = { news: [program("morning", 1, 2)], live: [program("show", 1, 2)] };
+    const result = fillEPGGaps(epgData, [catchupChannel, channel({ name: "Live", tvgId: "live" })], 48, now);
+    expect(result.live).toBe(epgData.live);
+    expect(epgData.news).toHaveLength(1);
+    expect(result).not.toBe(epgData);
+  });
+
+  it("adds nothing when the guide already covers the window", () => {
+    const epgData: EPGData = { news: [program("all day", -24, 24)] };
+    expect(fillEPGGaps(epgData, [catchupChannel], 48, now).news).toBe(epgData.news);
+  });
+});
@@ -1,63 +1,443 @@
-import { EPGProgram } from "../types/player";
+import { Channel, EPGCreditRole, EPGEpisode, EPGProgram, LocalizedText, Locale } from "../types/player";
+import { supportsCatchup } from "./catchup";
 
 export type EPGData = Record<string, EPGProgram[]>;
 
+export interface EPGParseWarning {
+  channelId: string;
+  attribute: "start" | "stop";
+  value: string;
+  message: string;
+}
+
+export interface EPGParseOptions {
+  /**
+   * Timezone for timestamps that carry no offset of their own.
+   * Accepts "±HHMM", "±HH:MM", "UTC"/"Z" or an IANA zone name such as "Asia/Shanghai".
+   * Defaults to the browser's local timezone.
+   */
+  timezone?: string;
+  /** Called for every programme skipped because of a malformed timestamp */
+  onWarning?: (warning: EPGParseWarning) => void;
+}
+
 /**
- * Parse XMLTV format EPG data
- * @param xml - XMLTV string
- * @returns EPGData object
+ * Thrown when an XMLTV timestamp or timezone cannot be parsed
  */
-export function parseEPG(xml: string): EPGData {
-  const parser = new DOMParser();
-  const doc = parser.parseFromString(xml, "text/xml");
-  const items = doc.querySelectorAll("programme");
-  
+export class XMLTVTimeError extends Error {
+  constructor(
+    message: string,
+    public readonly value: string,
+  ) {
+    super(message);
+    this.name = "XMLTVTimeError";
+  }
+}
+
+// YYYY[MM[DD[hh[mm[ss]]]]] followed by an optional offset ("+0800", "+08:00", "Z", "UTC", "GMT")
+const XMLTV_TIME_PATTERN =
+  /^(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(?:\.\d+)?\s*(?:([+-])(\d{2}):?(\d{2})|(Z|UTC|GMT))?$/i;
+const FIXED_OFFSET_PATTERN = /^([+-])(\d{2}):?(\d{2})$/;
+
+type ResolvedTimezone = { type: "local" } | { type: "fixed"; offsetMinutes: number } | { type: "zone"; name: string };
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Resolve a timezone option into something parseXMLTVTime can apply
+ * @throws XMLTVTimeError if the timezone is not recognized
+ */
+function resolveTimezone(timezone?: string): ResolvedTimezone {
+  const value = timezone?.trim();
+  if (!value) return { type: "local" };
+  if (/^(Z|UTC|GMT)$/i.test(value)) return { type: "fixed", offsetMinutes: 0 };
+
+  const fixed = value.match(FIXED_OFFSET_PATTERN);
+  if (fixed) {
+    const minutes = parseInt(fixed[2]) * 60 + parseInt(fixed[3]);
+    return { type: "fixed", offsetMinutes: fixed[1] === "-" ? -minutes : minutes };
+  }
+
+  if (!zoneFormatters.has(value)) {
+    try {
+      zoneFormatters.set(
+        value,
+        new Intl.DateTimeFormat("en-US", {
+          timeZone: value,
+          hourCycle: "h23",
+          year: "numeric",
+          month: "2-digit",
+          day: "2-digit",
+          hour: "2-digit",
+          minute: "2-digit",
+          second: "2-digit",
+        }),
+      );
+    } catch {
+      throw new XMLTVTimeError(`Unknown timezone "${value}"`, value);
+    }
+  }
+  return { type: "zone", name: value };
+}
+
+/**
+ * Get the UTC offset (in minutes) of an IANA zone at a given instant
+ */
+function getZoneOffsetMinutes(zone: string, utcMs: number): number {
+  const formatter = zoneFormatters.get(zone)!;
+  const parts: Record<string, number> = {};
+  formatter.formatToParts(new Date(utcMs)).forEach((part) => {
+    if (part.type !== "literal") parts[part.type] = parseInt(part.value);
+  });
+  const wallAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second);
+  return Math.round((wallAsUtc - Math.floor(utcMs / 1000) * 1000) / 60000);
+}
+
+/**
+ * Parse an XMLTV timestamp (YYYYMMDDhhmmss ±hhmm, possibly truncated)
+ * @param value - Timestamp string from a start/stop attribute
+ * @param timezone - Timezone used when the timestamp has no offset (see EPGParseOptions.timezone)
+ * @returns Date at the correct instant
+ * @throws XMLTVTimeError if the timestamp is malformed or out of range
+ */
+export function parseXMLTVTime(value: string, timezone?: string): Date {
+  return parseXMLTVTimeIn(value, resolveTimezone(timezone));
+}
+
+function parseXMLTVTimeIn(value: string, timezone: ResolvedTimezone): Date {
+  const match = value.trim().match(XMLTV_TIME_PATTERN);
+  if (!match) {
+    throw new XMLTVTimeError(`Malformed XMLTV timestamp "${value}"`, value);
+  }
+
+  const year = parseInt(match[1]);
+  const month = match[2] ? parseInt(match[2]) : 1;
+  const day = match[3] ? parseInt(match[3]) : 1;
+  const hour = match[4] ? parseInt(match[4]) : 0;
+  const minute = match[5] ? parseInt(match[5]) : 0;
+  const second = match[6] ? parseInt(match[6]) : 0;
+
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth || hour > 23 || minute > 59 || second > 59) {
+    throw new XMLTVTimeError(`XMLTV timestamp out of range "${value}"`, value);
+  }
+
+  const wallAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  // Explicit offset in the timestamp always wins
+  if (match[7]) {
+    const offsetMinutes = (parseInt(match[8]) * 60 + parseInt(match[9])) * (match[7] === "-" ? -1 : 1);
+    return new Date(wallAsUtc - offsetMinutes * 60000);
+  }
+  if (match[10]) {
+    return new Date(wallAsUtc);
+  }
+
+  switch (timezone.type) {
+    case "fixed":
+      return new Date(wallAsUtc - timezone.offsetMinutes * 60000);
+    case "zone": {
+      // Guess with the offset at the wall time, then correct once for DST transitions
+      const firstOffset = getZoneOffsetMinutes(timezone.name, wallAsUtc);
+      let utcMs = wallAsUtc - firstOffset * 60000;
+      const secondOffset = getZoneOffsetMinutes(timezone.name, utcMs);
+      if (secondOffset !== firstOffset) {
+        utcMs = wallAsUtc - secondOffset * 60000;
+      }
+      return new Date(utcMs);
+    }
+    default:
+      return new Date(year, month - 1, day, hour, minute, second);
+  }
+}
+
+/**
+ * Minimal element tree for a single <programme>, independent of how the XML was read
+ */
+export interface XMLTVElement {
+  name: string;
+  attributes: Record<string, string>;
+  text: string;
+  children: XMLTVElement[];
+}
+
+const CREDIT_ROLES: ReadonlySet<string> = new Set<EPGCreditRole>([
+  "director",
+  "actor",
+  "writer",
+  "adapter",
+  "producer",
+  "composer",
+  "editor",
+  "presenter",
+  "commentator",
+  "guest",
+]);
+
+/**
+ * Convert a DOM element into an XMLTVElement tree
+ */
+function elementFromDOM(node: Element): XMLTVElement {
+  const attributes: Record<string, string> = {};
+  for (const attribute of Array.from(node.attributes)) {
+    attributes[attribute.name] = attribute.value;
+  }
+  const children = Array.from(node.children).map(elementFromDOM);
+  return {
+    name: node.tagName,
+    attributes,
+    // Only leaf elements carry meaningful text in XMLTV
+    text: children.length === 0 ? node.textContent || "" : "",
+    children,
+  };
+}
+
+/**
+ * Parse an <episode-num> value
+ * xmltv_ns is "season[/total].episode[/total].part[/total]", all 0-based and each part optional
+ */
+export function parseEpisodeNum(value: string, system?: string): EPGEpisode | undefined {
+  const text = value.trim();
+  if (!text) return undefined;
+
+  if (system !== "xmltv_ns") {
+    return { display: text };
+  }
+
+  const [seasonPart = "", episodePart = "", partPart = ""] = text.replace(/\s+/g, "").split(".");
+  const readNumber = (part: string) => {
+    const [current, total] = part.split("/");
+    const currentNumber = current ? parseInt(current) : NaN;
+    const totalNumber = total ? parseInt(total) : NaN;
+    return {
+      current: Number.isNaN(currentNumber) ? undefined : currentNumber + 1,
+      total: Number.isNaN(totalNumber) ? undefined : totalNumber,
+    };
+  };
+
+  const season = readNumber(seasonPart);
+  const episode = readNumber(episodePart);
+  const part = readNumber(partPart);
+  if (season.current === undefined && episode.current === undefined && part.current === undefined) {
+    return undefined;
+  }
+
+  return {
+    season: season.current,
+    episode: episode.current,
+    part: part.current,
+    totalEpisodes: episode.total,
+  };
+}
+
+/**
+ * Read the metadata children of a <programme> element into program fields
+ */
+function readProgramDetails(element: XMLTVElement): Omit<EPGProgram, "id" | "start" | "end"> {
+  const details: Omit<EPGProgram, "id" | "start" | "end"> = {};
+  const localized = (child: XMLTVElement): LocalizedText | null => {
+    const value = child.text.trim();
+    if (!value) return null;
+    return child.attributes.lang ? { value, lang: child.attributes.lang } : { value };
+  };
+  const pushText = (key: "titles" | "subTitles" | "descriptions" | "categories", child: XMLTVElement) => {
+    const text = localized(child);
+    if (text) (details[key] ??= []).push(text);
+  };
+
+  for (const child of element.children) {
+    switch (child.name) {
+      case "title":
+        pushText("titles", child);
+        break;
+      case "sub-title":
+        pushText("subTitles", child);
+        break;
+      case "desc":
+        pushText("descriptions", child);
+        break;
+      case "category":
+        pushText("categories", child);
+        break;
+      case "episode-num": {
+        const episode = parseEpisodeNum(child.text, child.attributes.system);
+        // xmltv_ns gives the numbers, other systems only a display label; keep both
+        if (episode) details.episode = { ...details.episode, ...episode };
+        break;
+      }
+      case "icon":
+        if (!details.icon && child.attributes.src) details.icon = child.attributes.src;
+        break;
+      case "rating": {
+        const value = child.children.find((c) => c.name === "value")?.text.trim();
+        if (value) {
+          const icon = child.children.find((c) => c.name === "icon")?.attributes.src;
+          (details.ratings ??= []).push({ system: child.attributes.system, value, icon });
+        }
+        break;
+      }
+      case "credits":
+        for (const credit of child.children) {
+          const name = credit.text.trim();
+          if (!name || !CREDIT_ROLES.has(credit.name)) continue;
+          (details.credits ??= []).push({
+            role: credit.name as EPGCreditRole,
+            name,
+            character: credit.attributes.role || undefined,
+          });
+        }
+        break;
+    }
+  }
+
+  details.title = details.titles?.[0]?.value || "";
+  return details;
+}
+
+/**
+ * Accumulates <programme> elements into EPGData.
+ * Shared by the DOM based parseEPG and streaming parsers.
+ */
+export interface EPGProgramCollector {
+  add(element: XMLTVElement): void;
+  finish(): EPGData;
+}
+
+/**
+ * Create a collector that turns <programme> elements into sorted EPGData
+ * @param options - Timezone override and warning callback
+ */
+export function createEPGProgramCollector(options: EPGParseOptions = {}): EPGProgramCollector {
+  let timezone: ResolvedTimezone = { type: "local" };
+  try {
+    timezone = resolveTimezone(options.timezone);
+  } catch (error) {
+    console.warn(`${(error as Error).message}, falling back to local time`);
+  }
+
+  let warningCount = 0;
+  let firstWarning: EPGParseWarning | null = null;
+  const report = (warning: EPGParseWarning) => {
+    warningCount++;
+    firstWarning ??= warning;
+    options.onWarning?.(warning);
+  };
+
   const epgData: EPGData = {};
-  
-  items.forEach(item => {
-    const channelId = item.getAttribute("channel") || "";
-    const startStr = item.getAttribute("start") || "";
-    const stopStr = item.getAttribute("stop") || "";
-    
-    // Parse start/end time (XMLTV format: YYYYMMDDHHMMSS ±HHMM)
-    const parseTime = (timeStr: string) => {
-      if (!timeStr) return new Date();
-      
-      // Remove timezone offset for simplicity
-      const cleanStr = timeStr.replace(/\s+[+-]\d{4}$/, "");
-      const year = parseInt(cleanStr.substring(0, 4));
-      const month = parseInt(cleanStr.substring(4, 6)) - 1;
-      const day = parseInt(cleanStr.substring(6, 8));
-      const hour = parseInt(cleanStr.substring(8, 10));
-      const minute = parseInt(cleanStr.substring(10, 12));
-      const second = parseInt(cleanStr.substring(12, 14)) || 0;
-      
-      return new Date(year, month, day, hour, minute, second);
+  // Programmes without a stop attribute end when the next one on the channel starts
+  const openEnded = new Set<EPGProgram>();
+
+  const add = (element: XMLTVElement) => {
+    const channelId = element.attributes.channel || "";
+    const startStr = element.attributes.start || "";
+    const stopStr = element.attributes.stop || "";
+
+    const parseTime = (attribute: "start" | "stop", timeStr: string): Date | null => {
+      try {
+        return parseXMLTVTimeIn(timeStr, timezone);
+      } catch (error) {
+        report({ channelId, attribute, value: timeStr, message: (error as Error).message });
+        return null;
+      }
     };
-    
-    const start = parseTime(startStr);
-    const end = parseTime(stopStr);
-    const title = item.querySelector("title")?.textContent || "";
+
+    const start = parseTime("start", startStr);
+    const end = stopStr ? parseTime("stop", stopStr) : start;
+    if (!start || !end) return;
+
     const id = `${channelId}-${start.getTime()}`;
-    
+
     if (!epgData[channelId]) {
       epgData[channelId] = [];
     }
-    
-    epgData[channelId].push({
+
+    const program: EPGProgram = {
       id,
-      title,
       start,
-      end
+      end,
+      ...readProgramDetails(element),
+    };
+    if (!stopStr) openEnded.add(program);
+
+    epgData[channelId].push(program);
+  };
+
+  const finish = () => {
+    // Without an onWarning handler, summarize once instead of logging per programme
+    if (warningCount > 0 && !options.onWarning) {
+      console.warn(`Skipped ${warningCount} EPG programme(s) with malformed timestamps, e.g.`, firstWarning);
+    }
+
+    // Sort programs by start time
+    Object.keys(epgData).forEach((channelId) => {
+      const programs = epgData[channelId].sort((a, b) => a.start.getTime() - b.start.getTime());
+      if (openEnded.size > 0) {
+        epgData[channelId] = programs.filter((program, index) => {
+          if (!openEnded.has(program)) return true;
+          const next = programs[index + 1];
+          if (!next) return false;
+          program.end = next.start;
+          return true;
+        });
+      }
     });
+
+    return epgData;
+  };
+
+  return { add, finish };
+}
+
+/**
+ * Parse XMLTV format EPG data
+ * @param xml - XMLTV string
+ * @param options - Timezone override and warning callback
+ * @returns EPGData object
+ */
+export function parseEPG(xml: string, options: EPGParseOptions = {}): EPGData {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(xml, "text/xml");
+  const collector = createEPGProgramCollector(options);
+
+  doc.querySelectorAll("programme").forEach((item) => {
+    collector.add(elementFromDOM(item));
   });
-  
-  // Sort programs by start time
-  Object.keys(epgData).forEach(channelId => {
-    epgData[channelId].sort((a, b) => a.start.getTime() - b.start.getTime());
-  });
-  
-  return epgData;
+
+  return collector.finish();
+}
+
+const LOCALE_LANGUAGE_PREFERENCES: Record<Locale, string[]> = {
+  "zh-Hans": ["zh-hans", "zh-cn", "zh-sg", "zh", "chi", "zho", "chs"],
+  "zh-Hant": ["zh-hant", "zh-tw", "zh-hk", "zh-mo", "zh", "chi", "zho", "cht"],
+  "en-US": ["en-us", "en", "eng"],
+};
+
+/**
+ * Pick the text that best matches a locale
+ * Falls back to an untagged text, then to the first one
+ * @param texts - Localized variants from the guide
+ * @param locale - Active UI locale
+ */
+export function pickLocalizedText(texts: LocalizedText[] | undefined, locale: Locale): string | undefined {
+  if (!texts || texts.length === 0) return undefined;
+
+  for (const preferred of LOCALE_LANGUAGE_PREFERENCES[locale]) {
+    const match = texts.find((text) => text.lang?.toLowerCase().replace("_", "-") === preferred);
+    if (match) return match.value;
+  }
+  // Loose match on the primary language subtag (e.g. "en-GB" for en-US)
+  const primary = LOCALE_LANGUAGE_PREFERENCES[locale][0].split("-")[0];
+  const loose = texts.find((text) => text.lang?.toLowerCase().split(/[-_]/)[0] === primary);
+  if (loose) return loose.value;
+
+  return (texts.find((text) => !text.lang) || texts[0]).value;
+}
+
+/**
+ * Get the program title best matching the locale
+ */
+export function getProgramTitle(program: EPGProgram, locale: Locale): string {
+  return pickLocalizedText(program.titles, locale) || program.title || "";
 }
 
 /**
@@ -111,3 +491,233 @@ export function generateFallbackPrograms(
 
   return fallbackPrograms;
 }
+
+/**
+ * Alternative names for EPG channel ids, e.g. from XMLTV <display-name>s
+ * Keys are EPG channel ids, values are names that should resolve to them
+ */
+export type EPGChannelAliases = Record<string, string[]>;
+
+// Quality/definition suffixes that playlists append but guides usually omit
+const CHANNEL_NAME_SUFFIX_PATTERN = /(?:uhd|fhd|hd|sd|4k|8k|高清|超清|标清|標清|蓝光|藍光|频道|頻道)+$/;
+
+/**
+ * Normalize a channel name or id for loose matching
+ * Case, width, whitespace and separators are ignored, as are trailing quality tags like "HD" or "高清"
+ */
+export function normalizeChannelName(name: string): string {
+  const compact = name
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[\s\-_.·・'"|]+/g, "");
+  const stripped = compact.replace(CHANNEL_NAME_SUFFIX_PATTERN, "");
+  return stripped || compact;
+}
+
+interface EPGChannelIndex {
+  normalized: Map<string, string>;
+  aliases: EPGChannelAliases | undefined;
+  aliasIndex: Map<string, string>;
+}
+
+const channelIndexCache = new WeakMap<EPGData, EPGChannelIndex>();
+
+/**
+ * Build (or reuse) the normalized lookup tables for an EPGData object
+ */
+function getChannelIndex(epgData: EPGData, aliases?: EPGChannelAliases): EPGChannelIndex {
+  const cached = channelIndexCache.get(epgData);
+  if (cached && cached.aliases === aliases) return cached;
+
+  const normalized = new Map<string, string>();
+  Object.keys(epgData).forEach((id) => {
+    const key = normalizeChannelName(id);
+    // First id wins so the lookup stays deterministic
+    if (!normalized.has(key)) normalized.set(key, id);
+  });
+
+  const aliasIndex = new Map<string, string>();
+  if (aliases) {
+    Object.entries(aliases).forEach(([id, names]) => {
+      if (!epgData[id]) return;
+      names.forEach((name) => {
+        const key = normalizeChannelName(name);
+        if (!aliasIndex.has(key)) aliasIndex.set(key, id);
+      });
+    });
+  }
+
+  const index = { normalized, aliases, aliasIndex };
+  channelIndexCache.set(epgData, index);
+  return index;
+}
+
+/**
+ * Resolve the EPG channel id for a playlist channel
+ * Tries tvgId, then tvgName, then name; each exactly, then normalized, then through aliases.
+ * @param channel - Playlist channel
+ * @param epgData - Loaded EPG data
+ * @param aliases - Optional alternative names per EPG channel id
+ * @returns The matching key in epgData, or null if the channel has no guide
+ */
+export function getEPGChannelId(
+  channel: Pick<Channel, "tvgId" | "tvgName" | "name">,
+  epgData: EPGData,
+  aliases?: EPGChannelAliases,
+): string | null {
+  const candidates = [channel.tvgId, channel.tvgName, channel.name].filter((value): value is string => !!value);
+  if (candidates.length === 0) return null;
+
+  let index: EPGChannelIndex | null = null;
+  for (const candidate of candidates) {
+    if (epgData[candidate]) return candidate;
+
+    index ??= getChannelIndex(epgData, aliases);
+    const key = normalizeChannelName(candidate);
+    const match = index.normalized.get(key) ?? index.aliasIndex.get(key);
+    if (match) return match;
+  }
+
+  return null;
+}
+
+/**
+ * Find the index of the program airing at a given time
+ * @param programs - Programs sorted by start time
+ * @param time - Point in time to look up
+ * @returns Index into programs, or -1 if nothing airs at that time
+ */
+export function findProgramIndex(programs: EPGProgram[], time: Date): number {
+  const target = time.getTime();
+  let low = 0;
+  let high = programs.length - 1;
+  let candidate = -1;
+
+  // Last program starting at or before the target
+  while (low <= high) {
+    const mid = (low + high) >>> 1;
+    if (programs[mid].start.getTime() <= target) {
+      candidate = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  if (candidate !== -1 && programs[candidate].end.getTime() > target) {
+    return candidate;
+  }
+  return -1;
+}
+
+/**
+ * Get the program airing on a channel at a given time
+ * @param channelId - EPG channel id (see getEPGChannelId)
+ * @param epgData - Loaded EPG data
+ * @param time - Point in time to look up (default: now)
+ * @returns The program, or null if nothing airs at that time
+ */
+export function getCurrentProgram(channelId: string, epgData: EPGData, time: Date = new Date()): EPGProgram | null {
+  const programs = epgData[channelId];
+  if (!programs || programs.length === 0) return null;
+
+  const index = findProgramIndex(programs, time);
+  return index === -1 ? null : programs[index];
+}
+
+/**
+ * Get the program airing at a given time and the one after it
+ * @param programs - Programs sorted by start time
+ * @param time - Point in time to look up
+ * @returns The airing program (null in a gap) and the first program starting after time
+ */
+export function getNowNext(
+  programs: EPGProgram[],
+  time: Date,
+): { current: EPGProgram | null; next: EPGProgram | null } {
+  const index = findProgramIndex(programs, time);
+  if (index !== -1) {
+    return { current: programs[index], next: programs[index + 1] ?? null };
+  }
+
+  // In a gap: first program starting after the target
+  const target = time.getTime();
+  let low = 0;
+  let high = programs.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (programs[mid].start.getTime() <= target) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return { current: null, next: programs[low] ?? null };
+}
+
+const FALLBACK_BLOCK_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * Fill gaps in the guide of catchup-capable channels with 2-hour placeholder programs
+ * Placeholders have no title so the UI can show its localized "excellent program" label.
+ * @param epgData - Loaded EPG data (not modified)
+ * @param channels - Playlist channels
+ * @param lookbackHours - How far back from now to fill when the channel has no catchupDays (default: 48)
+ * @param now - Reference time (default: current time)
+ * @returns New EPGData with filled channels; untouched channels keep their arrays
+ */
+export function fillEPGGaps(
+  epgData: EPGData,
+  channels: Channel[],
+  lookbackHours: number = 48,
+  now: Date = new Date(),
+): EPGData {
+  const result: EPGData = { ...epgData };
+  const filled = new Set<string>();
+
+  const windowEnd = Math.ceil((now.getTime() + 1) / FALLBACK_BLOCK_MS) * FALLBACK_BLOCK_MS;
+
+  channels.forEach((channel) => {
+    if (!supportsCatchup(channel)) return;
+
+    const channelId = getEPGChannelId(channel, epgData) ?? channel.tvgId ?? channel.tvgName ?? channel.name;
+    if (filled.has(channelId)) return;
+    filled.add(channelId);
+
+    // Blocks are aligned to 2-hour boundaries for cleaner segments; the channel's archive depth wins over the default
+    const channelLookbackHours = channel.catchupDays ? channel.catchupDays * 24 : lookbackHours;
+    const windowStart =
+      Math.floor((now.getTime() - channelLookbackHours * 60 * 60 * 1000) / FALLBACK_BLOCK_MS) * FALLBACK_BLOCK_MS;
+    const programs = epgData[channelId] || [];
+    const placeholders: EPGProgram[] = [];
+    const fillRange = (from: number, to: number) => {
+      let start = from;
+      while (start < to) {
+        const end = Math.min(to, (Math.floor(start / FALLBACK_BLOCK_MS) + 1) * FALLBACK_BLOCK_MS);
+        placeholders.push({
+          id: `fallback-${channelId}-${start}`,
+          start: new Date(start),
+          end: new Date(end),
+        });
+        start = end;
+      }
+    };
+
+    let cursor = windowStart;
+    for (const program of programs) {
+      const start = program.start.getTime();
+      const end = program.end.getTime();
+      if (end <= cursor) continue;
+      if (start >= windowEnd) break;
+      if (start > cursor) fillRange(cursor, start);
+      cursor = Math.max(cursor, end);
+    }
+    fillRange(cursor, windowEnd);
+
+    if (placeholders.length > 0) {
+      result[channelId] = [...programs, ...placeholders].sort((a, b) => a.start.getTime() - b.start.getTime());
+    }
+  });
+
+  return result;
+}
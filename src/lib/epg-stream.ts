@@ -0,0 +1,211 @@
+import { createEPGProgramCollector, EPGData, EPGParseOptions, normalizeChannelName, XMLTVElement } from "./epg-parser";
+import { createXMLTVStreamParser } from "./xmltv-sax";
+
+export interface EPGLoadProgress {
+  /** Bytes received so far (compressed size for gzip files) */
+  loadedBytes: number;
+  /** Total size from Content-Length or the Blob, if known */
+  totalBytes?: number;
+  /** Number of programmes read so far */
+  programmes: number;
+}
+
+/** Guide body that is already being downloaded, e.g. from a conditional request */
+export interface EPGByteStream {
+  body: ReadableStream<Uint8Array>;
+  /** Size from Content-Length, if known */
+  totalBytes?: number;
+}
+
+/** Where a guide is read from: an absolute URL, a Blob or an open byte stream */
+export type EPGStreamSource = string | Blob | EPGByteStream;
+
+export interface EPGStreamOptions extends EPGParseOptions {
+  /** Only keep programmes for these channel ids (tvg-id, tvg-name or display name) */
+  channelIds?: Iterable<string>;
+  onProgress?: (progress: EPGLoadProgress) => void;
+  signal?: AbortSignal;
+}
+
+const PROGRESS_INTERVAL_MS = 200;
+
+/**
+ * Put an already-read first chunk back in front of the rest of a stream
+ */
+function prependChunk(first: Uint8Array, reader: ReadableStreamDefaultReader<Uint8Array>): ReadableStream<Uint8Array> {
+  let sentFirst = false;
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!sentFirst) {
+        sentFirst = true;
+        controller.enqueue(first);
+        return;
+      }
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Get the body of a guide response as a byte stream, without reading it
+ */
+export function getResponseStream(response: Response): EPGByteStream {
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to fetch EPG: ${response.status} ${response.statusText}`);
+  }
+
+  // With Content-Encoding the browser already decompresses, so the header no longer describes the body
+  const contentLength = parseInt(response.headers.get("Content-Length") || "");
+  const encoded = !!response.headers.get("Content-Encoding");
+  return {
+    body: response.body,
+    totalBytes: Number.isFinite(contentLength) && !encoded ? contentLength : undefined,
+  };
+}
+
+/**
+ * Open an EPG source as a byte stream
+ */
+async function openSource(source: EPGStreamSource, signal?: AbortSignal): Promise<EPGByteStream> {
+  if (source instanceof Blob) {
+    return { body: source.stream(), totalBytes: source.size };
+  }
+  if (typeof source !== "string") {
+    return source;
+  }
+
+  const response = await fetch(source, {
+    mode: source.startsWith("http") ? "cors" : "same-origin",
+    cache: "no-cache",
+    signal,
+  });
+  return getResponseStream(response);
+}
+
+/**
+ * Load and parse an XMLTV guide incrementally
+ * Gzip is detected from the magic bytes, so both .xml and .xml.gz work regardless of server headers.
+ * @param source - Absolute URL, Blob or open byte stream of the guide
+ * @param options - Channel filter, timezone, progress callback and abort signal
+ * @returns EPGData restricted to the requested channels
+ */
+export async function streamEPG(source: EPGStreamSource, options: EPGStreamOptions = {}): Promise<EPGData> {
+  const { channelIds, onProgress, signal, ...parseOptions } = options;
+  // Normalized name -> playlist ids, so "CCTV-1 HD" in the playlist still matches "cctv1" in the guide
+  let wanted: Map<string, string[]> | null = null;
+  if (channelIds) {
+    wanted = new Map();
+    for (const id of channelIds) {
+      const key = normalizeChannelName(id);
+      const ids = wanted.get(key);
+      if (ids) ids.push(id);
+      else wanted.set(key, [id]);
+    }
+  }
+
+  const { body, totalBytes } = await openSource(source, signal);
+  const reader = body.getReader();
+  const first = await reader.read();
+  if (first.done) {
+    return {};
+  }
+
+  const isGzip = first.value.length >= 2 && first.value[0] === 0x1f && first.value[1] === 0x8b;
+  let loadedBytes = 0;
+  const counted = prependChunk(first.value, reader).pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        loadedBytes += chunk.byteLength;
+        controller.enqueue(chunk);
+      },
+    }),
+  );
+  const decompressed = isGzip
+    ? counted.pipeThrough(new DecompressionStream("gzip") as unknown as TransformStream<Uint8Array, Uint8Array>)
+    : counted;
+  const byteReader = decompressed.getReader();
+  const decoder = new TextDecoder("utf-8");
+
+  const collector = createEPGProgramCollector(parseOptions);
+  // XMLTV id -> playlist ids it was matched through its id or <display-name>s
+  const aliases = new Map<string, string[]>();
+  let programmes = 0;
+
+  const matchPlaylistIds = (names: string[]): string[] => {
+    const ids = new Set<string>();
+    names.forEach((name) => wanted?.get(normalizeChannelName(name))?.forEach((id) => ids.add(id)));
+    return Array.from(ids);
+  };
+
+  const handleElement = (element: XMLTVElement) => {
+    if (!wanted) {
+      if (element.name === "programme") {
+        collector.add(element);
+        programmes++;
+      }
+      return;
+    }
+
+    if (element.name === "channel") {
+      const channelId = element.attributes.id || "";
+      const names = element.children.filter((child) => child.name === "display-name").map((child) => child.text.trim());
+      const matched = matchPlaylistIds([channelId, ...names]);
+      if (matched.length > 0) aliases.set(channelId, matched);
+      return;
+    }
+
+    const channelId = element.attributes.channel || "";
+    // Guides without <channel> entries can still match on the programme's channel attribute
+    if (!aliases.has(channelId)) {
+      const matched = matchPlaylistIds([channelId]);
+      if (matched.length === 0) return;
+      aliases.set(channelId, matched);
+    }
+    collector.add(element);
+    programmes++;
+  };
+
+  const parser = createXMLTVStreamParser(handleElement);
+  let lastProgressAt = 0;
+
+  try {
+    for (;;) {
+      signal?.throwIfAborted();
+      const { done, value } = await byteReader.read();
+      if (done) break;
+      parser.write(decoder.decode(value, { stream: true }));
+
+      const now = Date.now();
+      if (onProgress && now - lastProgressAt >= PROGRESS_INTERVAL_MS) {
+        lastProgressAt = now;
+        onProgress({ loadedBytes, totalBytes, programmes });
+      }
+    }
+    parser.write(decoder.decode());
+    parser.end();
+  } finally {
+    byteReader.releaseLock();
+  }
+
+  const epgData = collector.finish();
+
+  // Make programmes matched loosely or by display name reachable under the playlist's own ids too
+  aliases.forEach((ids, channelId) => {
+    const programs = epgData[channelId];
+    if (!programs) return;
+    ids.forEach((id) => {
+      epgData[id] ??= programs;
+    });
+  });
+
+  onProgress?.({ loadedBytes, totalBytes, programmes });
+  return epgData;
+}
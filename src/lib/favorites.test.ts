@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { Channel } from "../types/player";
+import { exportFavorites, getChannelKey, getFavoriteChannels, moveItem, parseFavoritesExport } from "./favorites";
+
+function channel(name: string, overrides: Partial<Channel> = {}): Channel {
+  return { id: name, name, group: "", url: `http://tv/${name}`, attributes: {}, sources: [], ...overrides };
+}
+
+describe("getChannelKey", () => {
+  it("prefers tvg-id and falls back to the name", () => {
+    expect(getChannelKey(channel("CCTV-1", { tvgId: "cctv1" }))).toBe("tvg:cctv1");
+    expect(getChannelKey(channel("News", { id: "News#2" }))).toBe("name:News");
+  });
+});
+
+describe("getFavoriteChannels", () => {
+  it("returns favorites in favorites order, skipping keys not in the lineup", () => {
+    const lineup = [channel("A"), channel("B", { tvgId: "b" }), channel("C")];
+    expect(getFavoriteChannels(lineup, ["name:C", "tvg:b", "name:Gone"])).toEqual([lineup[2], lineup[1]]);
+  });
+
+  it("uses the first channel sharing a key", () => {
+    const lineup = [channel("News"), channel("News", { id: "News#2" })];
+    expect(getFavoriteChannels(lineup, ["name:News"])).toEqual([lineup[0]]);
+  });
+});
+
+describe("moveItem", () => {
+  it("moves an item without changing the input", () => {
+    const items = ["a", "b", "c", "d"];
+    expect(moveItem(items, 0, 2)).toEqual(["b", "c", "a", "d"]);
+    expect(moveItem(items, 3, 1)).toEqual(["a", "d", "b", "c"]);
+    expect(items).toEqual(["a", "b", "c", "d"]);
+  });
+});
+
+describe("favorites export", () => {
+  it("round-trips keys in order with readable names", () => {
+    const text = exportFavorites(["tvg:b", "name:Gone"], [channel("B", { tvgId: "b" })]);
+    expect(JSON.parse(text).favorites).toEqual([{ key: "tvg:b", name: "B" }, { key: "name:Gone" }]);
+    expect(parseFavoritesExport(text)).toEqual(["tvg:b", "name:Gone"]);
+  });
+
+  it("drops duplicate and malformed entries", () => {
+    const text = JSON.stringify({
+      version: 1,
+      favorites: [{ key: "a" }, { key: 1 }, null, { key: "a" }, { key: "b" }],
+    });
+    expect(parseFavoritesExport(text)).toEqual(["a", "b"]);
+  });
+
+  it("rejects content that is not a favorites export", () => {
+    expect(() => parseFavoritesExport("{")).toThrow("Favorites file is not valid JSON");
+    expect(() => parseFavoritesExport("null")).toThrow("Not a favorites export");
+    expect(() => parseFavoritesExport(JSON.stringify({ version: 2, favorites: [] }))).toThrow("Not a favorites export");
+  });
+});
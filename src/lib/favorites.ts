@@ -0,0 +1,83 @@
+import { Channel } from "../types/player";
+
+/** JSON format used to share favorites */
+export interface FavoritesExport {
+  version: 1;
+  exportedAt: string;
+  /** In display order; name is informational and ignored on import */
+  favorites: { key: string; name?: string }[];
+}
+
+/**
+ * Get the key a channel is remembered by across playlist refreshes
+ * Unlike Channel.id it does not depend on the channel's position, so it survives
+ * reordering, merged sources and duplicate names being added or removed.
+ */
+export function getChannelKey(channel: Channel): string {
+  return channel.tvgId ? `tvg:${channel.tvgId}` : `name:${channel.name}`;
+}
+
+/**
+ * Get the favorite channels in favorites order, skipping keys not in the lineup
+ * @param channels - Current lineup
+ * @param favoriteKeys - Favorite channel keys in display order
+ */
+export function getFavoriteChannels(channels: Channel[], favoriteKeys: string[]): Channel[] {
+  const byKey = new Map<string, Channel>();
+  channels.forEach((channel) => {
+    const key = getChannelKey(channel);
+    if (!byKey.has(key)) byKey.set(key, channel);
+  });
+  return favoriteKeys.map((key) => byKey.get(key)).filter((channel): channel is Channel => !!channel);
+}
+
+/**
+ * Move an item to another position
+ * @returns New array; the input is not modified
+ */
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+/**
+ * Serialize favorites for sharing
+ * @param favoriteKeys - Favorite channel keys in display order
+ * @param channels - Current lineup, used to add readable names
+ */
+export function exportFavorites(favoriteKeys: string[], channels: Channel[]): string {
+  const names = new Map(channels.map((channel) => [getChannelKey(channel), channel.name]));
+  const data: FavoritesExport = {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    favorites: favoriteKeys.map((key) => ({ key, name: names.get(key) })),
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Read favorites exported by exportFavorites
+ * @param text - File content
+ * @returns Favorite channel keys in display order, without duplicates
+ * @throws Error if the content is not a favorites export
+ */
+export function parseFavoritesExport(text: string): string[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Favorites file is not valid JSON");
+  }
+
+  const favorites = (data as Partial<FavoritesExport> | null)?.favorites;
+  if ((data as Partial<FavoritesExport> | null)?.version !== 1 || !Array.isArray(favorites)) {
+    throw new Error("Not a favorites export");
+  }
+
+  const keys = favorites
+    .map((entry) => (typeof entry?.key === "string" ? entry.key : null))
+    .filter((key): key is string => !!key);
+  return Array.from(new Set(keys));
+}
@@ -0,0 +1,97 @@
+/**
+ * Minimal promise wrapper around the player's IndexedDB database
+ * Used for data too large for localStorage (imported files, cached guides).
+ */
+
+const DB_NAME = "rtp2httpd-player";
+const DB_VERSION = 2;
+
+/** Object stores; add new stores here and bump DB_VERSION */
+export const IDB_STORES = {
+  /** Imported playlist and guide files, keyed by local file id */
+  FILES: "files",
+  /** Last good playlist and guide, for starting offline */
+  CACHE: "cache",
+} as const;
+
+export type IDBStoreName = (typeof IDB_STORES)[keyof typeof IDB_STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Open (and create or upgrade) the database once per page
+ */
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.values(IDB_STORES).forEach((store) => {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store);
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry after a failure (e.g. storage blocked in private mode)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Run a single request against a store
+ */
+async function withStore<T>(
+  store: IDBStoreName,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDB();
+  return promisifyRequest(run(db.transaction(store, mode).objectStore(store)));
+}
+
+/**
+ * Read a value
+ * @returns The value or undefined if the key does not exist
+ */
+export function idbGet<T>(store: IDBStoreName, key: string): Promise<T | undefined> {
+  return withStore(store, "readonly", (objectStore) => objectStore.get(key) as IDBRequest<T | undefined>);
+}
+
+/**
+ * Write a value, replacing any existing one
+ */
+export async function idbPut<T>(store: IDBStoreName, key: string, value: T): Promise<void> {
+  await withStore(store, "readwrite", (objectStore) => objectStore.put(value, key));
+}
+
+/**
+ * Delete a value; deleting a missing key is not an error
+ */
+export async function idbDelete(store: IDBStoreName, key: string): Promise<void> {
+  await withStore(store, "readwrite", (objectStore) => objectStore.delete(key));
+}
+
+/**
+ * List all keys of a store
+ */
+export async function idbKeys(store: IDBStoreName): Promise<string[]> {
+  const keys = await withStore(store, "readonly", (objectStore) => objectStore.getAllKeys());
+  return keys.map(String);
+}
@@ -0,0 +1,62 @@
+/**
+ * Live latency control: keep the playhead a target distance behind the newest buffered media
+ */
+
+/** Default target latency in seconds */
+export const DEFAULT_LIVE_TARGET_LATENCY = 3;
+
+/** Accepted range of the target latency setting, in seconds */
+export const MIN_LIVE_TARGET_LATENCY = 1;
+export const MAX_LIVE_TARGET_LATENCY = 30;
+
+/** Latency above the target still counted as "at the live edge", in seconds */
+export const LIVE_EDGE_TOLERANCE = 2;
+
+export interface LiveSyncOptions {
+  /** Desired distance from the buffered end, in seconds */
+  targetLatency: number;
+  /** Playback rate while catching up (default 1.1, barely audible) */
+  catchUpRate?: number;
+  /** Latency above the target at which we seek instead of speeding up, in seconds (default 10) */
+  seekThreshold?: number;
+}
+
+export type LiveSyncAction =
+  /** Play at normal speed */
+  | { type: "none" }
+  /** Play slightly faster until back at the target */
+  | { type: "catchUp"; playbackRate: number }
+  /** Jump to this media time */
+  | { type: "seek"; time: number };
+
+/**
+ * Decide how to move towards the target latency
+ * Speeds up once the latency exceeds the target by more than LIVE_EDGE_TOLERANCE
+ * and keeps catching up until the target is reached; far behind, it seeks instead.
+ * @param latency - Current distance from the buffered end, in seconds
+ * @param bufferedEnd - Media time of the newest buffered media
+ * @param catchingUp - Whether the previous action was a catch-up
+ */
+export function getLiveSyncAction(
+  latency: number,
+  bufferedEnd: number,
+  catchingUp: boolean,
+  options: LiveSyncOptions,
+): LiveSyncAction {
+  const { targetLatency, catchUpRate = 1.1, seekThreshold = 10 } = options;
+
+  if (latency > targetLatency + seekThreshold) {
+    return { type: "seek", time: Math.max(0, bufferedEnd - targetLatency) };
+  }
+  if (latency > targetLatency + LIVE_EDGE_TOLERANCE || (catchingUp && latency > targetLatency)) {
+    return { type: "catchUp", playbackRate: catchUpRate };
+  }
+  return { type: "none" };
+}
+
+/**
+ * Whether the playhead counts as being at the live edge
+ */
+export function isAtLiveEdge(latency: number, targetLatency: number): boolean {
+  return latency <= targetLatency + LIVE_EDGE_TOLERANCE;
+}
@@ -0,0 +1,53 @@
+import { IDB_STORES, idbDelete, idbGet, idbKeys, idbPut } from "./idb";
+
+/** A playlist or guide imported from disk */
+export interface LocalFile {
+  name: string;
+  blob: Blob;
+  /** Milliseconds since epoch */
+  importedAt: number;
+}
+
+/**
+ * Check whether a file looks like an XMLTV guide (.xml, .xmltv or gzip-compressed)
+ */
+export function isGuideFile(file: File): boolean {
+  return /\.(xml|xmltv|gz)$/i.test(file.name) || /xml|gzip/.test(file.type);
+}
+
+/**
+ * Check whether a file looks like an M3U playlist
+ */
+export function isPlaylistFile(file: File): boolean {
+  return /\.(m3u8?|txt)$/i.test(file.name) || /mpegurl/i.test(file.type);
+}
+
+/**
+ * Store an imported file so it survives reloads
+ * @returns Id to read it back with getLocalFile
+ */
+export async function saveLocalFile(file: File): Promise<string> {
+  const id = `file-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  // Copy into a plain Blob; some browsers refuse to store File objects picked from disk
+  const blob = new Blob([await file.arrayBuffer()], { type: file.type });
+  await idbPut<LocalFile>(IDB_STORES.FILES, id, { name: file.name, blob, importedAt: Date.now() });
+  return id;
+}
+
+/**
+ * Read an imported file
+ * @returns The file or undefined if it was deleted
+ */
+export function getLocalFile(id: string): Promise<LocalFile | undefined> {
+  return idbGet<LocalFile>(IDB_STORES.FILES, id);
+}
+
+/**
+ * Delete every stored file that is not in the given set of ids
+ * @param keepIds - Ids still referenced by playlist sources
+ */
+export async function pruneLocalFiles(keepIds: Iterable<string>): Promise<void> {
+  const keep = new Set(keepIds);
+  const ids = await idbKeys(IDB_STORES.FILES);
+  await Promise.all(ids.filter((id) => !keep.has(id)).map((id) => idbDelete(IDB_STORES.FILES, id)));
+}
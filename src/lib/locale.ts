@@ -24,7 +24,94 @@ export const translations = {
     "channels": "频道",
     "epg": "节目单",
     "group": "分组",
-    "allChannels": "全部频道"
+    "allChannels": "全部频道",
+    "showDetails": "展开详情",
+    "hideDetails": "收起详情",
+    "director": "导演",
+    "cast": "演员",
+    "rating": "分级",
+    "episode": "集数",
+    "catchupUnavailable": "已超出回看范围",
+    "catchupWindowClamped": "此频道仅支持回看最近 {days} 天，已跳转到最早可回看的时间",
+    "switchedSource": "当前源播放失败，已切换到备用源 {index}/{total}",
+    "playlistSources": "播放列表源",
+    "addUrlSource": "添加地址",
+    "addTextSource": "粘贴内容",
+    "uploadPlaylist": "上传文件",
+    "sourceName": "名称",
+    "playlistUrl": "播放列表地址",
+    "playlistContent": "播放列表内容",
+    "epgUrlOptional": "节目单地址（可选）",
+    "moveUp": "上移",
+    "moveDown": "下移",
+    "removeSource": "删除",
+    "add": "添加",
+    "cancel": "取消",
+    "applySources": "保存并加载",
+    "noEnabledSources": "请至少启用一个播放列表源",
+    "playlistSourceFailed": "播放列表源 {name} 加载失败：{error}",
+    "importGuideFile": "导入节目单文件",
+    "removeGuideFile": "移除节目单文件",
+    "dropFilesHere": "松开以导入播放列表或节目单文件",
+    "filesImported": "已导入 {count} 个文件",
+    "noImportableFiles": "未找到可导入的播放列表（.m3u）或节目单（.xml / .xml.gz）文件",
+    "playlistUpdated": "频道列表已更新：新增 {added}，移除 {removed}，变更 {changed}",
+    "notifyPlaylistChanges": "频道列表更新时提示",
+    "staleData": "无法加载播放列表，正在显示 {time} 缓存的数据",
+    "retryNow": "立即重试",
+    "searchChannels": "搜索频道...",
+    "noSearchResults": "没有匹配的频道",
+    "favorites": "收藏",
+    "addToFavorites": "加入收藏",
+    "removeFromFavorites": "取消收藏",
+    "noFavorites": "点击频道旁的星标加入收藏",
+    "exportFavorites": "导出收藏",
+    "importFavorites": "导入收藏",
+    "favoritesImported": "已导入 {count} 个收藏频道",
+    "dragToReorder": "拖动以调整顺序",
+    "recentlyWatched": "最近观看",
+    "noWatchHistory": "暂无观看记录",
+    "clearHistory": "清空记录",
+    "resume": "继续观看",
+    "channelUnavailable": "该频道已不在当前播放列表中",
+    "channelNumberNotFound": "没有 {number} 号频道",
+    "guideGrid": "节目表网格",
+    "close": "关闭",
+    "nextProgram": "接下来",
+    "programInfo": "节目信息",
+    "setReminder": "设置提醒",
+    "cancelReminder": "取消提醒",
+    "reminderStartsAt": "{time} 在 {channel} 开始",
+    "tuneNow": "立即收看",
+    "reminderSet": "已设置提醒：{title}",
+    "record": "录制",
+    "startRecording": "开始录制",
+    "stopRecording": "停止录制",
+    "scheduleRecording": "预约录制",
+    "cancelScheduledRecording": "取消预约录制",
+    "recordingSaved": "录制已保存：{name}",
+    "recordingSizeLimit": "录制已达到大小上限，已保存：{name}",
+    "recordingFailed": "录制中断，已保存已录制部分：{name}",
+    "multiView": "多画面",
+    "layout2x2": "四宫格",
+    "layout1Plus3": "一大三小",
+    "exitMultiView": "退出多画面",
+    "fullView": "单画面播放",
+    "removeFromMultiView": "移除画面",
+    "chooseChannel": "选择频道",
+    "playbackError": "播放失败",
+    "diagnostics": "播放诊断",
+    "downloadSpeed": "下载速度",
+    "bufferLength": "缓冲长度",
+    "frames": "解码 / 丢帧",
+    "codec": "编码",
+    "resolution": "分辨率",
+    "frameRate": "帧率",
+    "liveLatency": "直播延迟",
+    "reconnects": "重连次数",
+    "copyReport": "复制诊断报告",
+    "jumpToLive": "回到直播",
+    "unavailable": "不可用"
   },
   "zh-Hant": {
     "loading": "加載中",
@@ -49,7 +136,94 @@ export const translations = {
     "channels": "頻道",
     "epg": "節目單",
     "group": "分組",
-    "allChannels": "全部頻道"
+    "allChannels": "全部頻道",
+    "showDetails": "展開詳情",
+    "hideDetails": "收起詳情",
+    "director": "導演",
+    "cast": "演員",
+    "rating": "分級",
+    "episode": "集數",
+    "catchupUnavailable": "已超出回看範圍",
+    "catchupWindowClamped": "此頻道僅支援回看最近 {days} 天，已跳轉到最早可回看的時間",
+    "switchedSource": "目前來源播放失敗，已切換到備用來源 {index}/{total}",
+    "playlistSources": "播放清單來源",
+    "addUrlSource": "新增網址",
+    "addTextSource": "貼上內容",
+    "uploadPlaylist": "上傳檔案",
+    "sourceName": "名稱",
+    "playlistUrl": "播放清單網址",
+    "playlistContent": "播放清單內容",
+    "epgUrlOptional": "節目表網址（選填）",
+    "moveUp": "上移",
+    "moveDown": "下移",
+    "removeSource": "刪除",
+    "add": "新增",
+    "cancel": "取消",
+    "applySources": "儲存並載入",
+    "noEnabledSources": "請至少啟用一個播放清單來源",
+    "playlistSourceFailed": "播放清單來源 {name} 載入失敗：{error}",
+    "importGuideFile": "匯入節目表檔案",
+    "removeGuideFile": "移除節目表檔案",
+    "dropFilesHere": "放開以匯入播放清單或節目表檔案",
+    "filesImported": "已匯入 {count} 個檔案",
+    "noImportableFiles": "找不到可匯入的播放清單（.m3u）或節目表（.xml / .xml.gz）檔案",
+    "playlistUpdated": "頻道列表已更新：新增 {added}，移除 {removed}，變更 {changed}",
+    "notifyPlaylistChanges": "頻道列表更新時提示",
+    "staleData": "無法載入播放清單，正在顯示 {time} 快取的資料",
+    "retryNow": "立即重試",
+    "searchChannels": "搜尋頻道...",
+    "noSearchResults": "沒有符合的頻道",
+    "favorites": "收藏",
+    "addToFavorites": "加入收藏",
+    "removeFromFavorites": "取消收藏",
+    "noFavorites": "點擊頻道旁的星號加入收藏",
+    "exportFavorites": "匯出收藏",
+    "importFavorites": "匯入收藏",
+    "favoritesImported": "已匯入 {count} 個收藏頻道",
+    "dragToReorder": "拖曳以調整順序",
+    "recentlyWatched": "最近觀看",
+    "noWatchHistory": "暫無觀看記錄",
+    "clearHistory": "清除記錄",
+    "resume": "繼續觀看",
+    "channelUnavailable": "該頻道已不在目前的播放清單中",
+    "channelNumberNotFound": "沒有 {number} 號頻道",
+    "guideGrid": "節目表網格",
+    "close": "關閉",
+    "nextProgram": "接下來",
+    "programInfo": "節目資訊",
+    "setReminder": "設定提醒",
+    "cancelReminder": "取消提醒",
+    "reminderStartsAt": "{time} 在 {channel} 開始",
+    "tuneNow": "立即收看",
+    "reminderSet": "已設定提醒：{title}",
+    "record": "錄製",
+    "startRecording": "開始錄製",
+    "stopRecording": "停止錄製",
+    "scheduleRecording": "預約錄製",
+    "cancelScheduledRecording": "取消預約錄製",
+    "recordingSaved": "錄製已儲存：{name}",
+    "recordingSizeLimit": "錄製已達到大小上限，已儲存：{name}",
+    "recordingFailed": "錄製中斷，已儲存已錄製部分：{name}",
+    "multiView": "多畫面",
+    "layout2x2": "四宮格",
+    "layout1Plus3": "一大三小",
+    "exitMultiView": "退出多畫面",
+    "fullView": "單畫面播放",
+    "removeFromMultiView": "移除畫面",
+    "chooseChannel": "選擇頻道",
+    "playbackError": "播放失敗",
+    "diagnostics": "播放診斷",
+    "downloadSpeed": "下載速度",
+    "bufferLength": "緩衝長度",
+    "frames": "解碼 / 掉幀",
+    "codec": "編碼",
+    "resolution": "解析度",
+    "frameRate": "幀率",
+    "liveLatency": "直播延遲",
+    "reconnects": "重連次數",
+    "copyReport": "複製診斷報告",
+    "jumpToLive": "回到直播",
+    "unavailable": "不可用"
   },
   "en-US": {
     "loading": "Loading",
@@ -74,7 +248,94 @@ export const translations = {
     "channels": "Channels",
     "epg": "EPG",
     "group": "Group",
-    "allChannels": "All channels"
+    "allChannels": "All channels",
+    "showDetails": "Show details",
+    "hideDetails": "Hide details",
+    "director": "Director",
+    "cast": "Cast",
+    "rating": "Rating",
+    "episode": "Episode",
+    "catchupUnavailable": "No longer in the catchup archive",
+    "catchupWindowClamped": "This channel only keeps {days} day(s) of catchup; jumped to the earliest available point",
+    "switchedSource": "Playback failed; switched to backup source {index}/{total}",
+    "playlistSources": "Playlist sources",
+    "addUrlSource": "Add URL",
+    "addTextSource": "Paste content",
+    "uploadPlaylist": "Upload file",
+    "sourceName": "Name",
+    "playlistUrl": "Playlist URL",
+    "playlistContent": "Playlist content",
+    "epgUrlOptional": "EPG URL (optional)",
+    "moveUp": "Move up",
+    "moveDown": "Move down",
+    "removeSource": "Remove",
+    "add": "Add",
+    "cancel": "Cancel",
+    "applySources": "Save & load",
+    "noEnabledSources": "Enable at least one playlist source",
+    "playlistSourceFailed": "Playlist source {name} failed to load: {error}",
+    "importGuideFile": "Import guide file",
+    "removeGuideFile": "Remove guide file",
+    "dropFilesHere": "Drop to import playlist or guide files",
+    "filesImported": "Imported {count} file(s)",
+    "noImportableFiles": "No playlist (.m3u) or guide (.xml / .xml.gz) files found",
+    "playlistUpdated": "Channel list updated: {added} added, {removed} removed, {changed} changed",
+    "notifyPlaylistChanges": "Notify when the channel list changes",
+    "staleData": "Couldn't load the playlist; showing stale data from {time}",
+    "retryNow": "Retry now",
+    "searchChannels": "Search channels...",
+    "noSearchResults": "No matching channels",
+    "favorites": "Favorites",
+    "addToFavorites": "Add to favorites",
+    "removeFromFavorites": "Remove from favorites",
+    "noFavorites": "Star a channel to add it to favorites",
+    "exportFavorites": "Export favorites",
+    "importFavorites": "Import favorites",
+    "favoritesImported": "Imported {count} favorite channel(s)",
+    "dragToReorder": "Drag to reorder",
+    "recentlyWatched": "Recently watched",
+    "noWatchHistory": "Nothing watched yet",
+    "clearHistory": "Clear history",
+    "resume": "Resume",
+    "channelUnavailable": "This channel is no longer in the playlist",
+    "channelNumberNotFound": "No channel {number}",
+    "guideGrid": "Guide grid",
+    "close": "Close",
+    "nextProgram": "Next",
+    "programInfo": "Programme info",
+    "setReminder": "Set reminder",
+    "cancelReminder": "Cancel reminder",
+    "reminderStartsAt": "Starts at {time} on {channel}",
+    "tuneNow": "Tune now",
+    "reminderSet": "Reminder set: {title}",
+    "record": "Record",
+    "startRecording": "Start recording",
+    "stopRecording": "Stop recording",
+    "scheduleRecording": "Schedule recording",
+    "cancelScheduledRecording": "Cancel scheduled recording",
+    "recordingSaved": "Recording saved: {name}",
+    "recordingSizeLimit": "Recording reached the size limit and was saved: {name}",
+    "recordingFailed": "Recording was interrupted; the part received was saved: {name}",
+    "multiView": "Multi-view",
+    "layout2x2": "2×2",
+    "layout1Plus3": "1 + 3",
+    "exitMultiView": "Exit multi-view",
+    "fullView": "Full view",
+    "removeFromMultiView": "Remove tile",
+    "chooseChannel": "Choose a channel",
+    "playbackError": "Playback failed",
+    "diagnostics": "Stream diagnostics",
+    "downloadSpeed": "Download speed",
+    "bufferLength": "Buffer length",
+    "frames": "Decoded / dropped",
+    "codec": "Codec",
+    "resolution": "Resolution",
+    "frameRate": "Frame rate",
+    "liveLatency": "Live latency",
+    "reconnects": "Reconnects",
+    "copyReport": "Copy diagnostics report",
+    "jumpToLive": "Jump to live",
+    "unavailable": "Unavailable"
   }
 } as const;
 
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { getChannelWithSource, parseM3U, tokenizeDirective } from "./m3u-parser";
+
+describe("tokenizeDirective", () => {
+  it("reads the duration, attributes and title", () => {
+    expect(tokenizeDirective(' -1 tvg-id="cctv1" group-title=News,CCTV-1', true)).toEqual({
+      duration: -1,
+      attributes: { "tvg-id": "cctv1", "group-title": "News" },
+      title: "CCTV-1",
+      errors: [],
+    });
+  });
+
+  it("keeps commas and spaces inside quotes and accepts single quotes", () => {
+    const tokens = tokenizeDirective(`-1 tvg-name="A, B" tvg-logo='http://logo/a b.png',Title, with comma`, true);
+    expect(tokens.attributes).toEqual({ "tvg-name": "A, B", "tvg-logo": "http://logo/a b.png" });
+    expect(tokens.title).toBe("Title, with comma");
+  });
+
+  it("lower-cases keys, keeps the first occurrence and accepts valueless flags", () => {
+    const tokens = tokenizeDirective('-1 TVG-ID="first" tvg-id="second" radio,Radio', true);
+    expect(tokens.attributes).toEqual({ "tvg-id": "first", radio: "" });
+  });
+
+  it("reports a missing duration, stray equals signs and unterminated quotes", () => {
+    expect(tokenizeDirective('tvg-id="a",Name', true).errors).toEqual(["missing #EXTINF duration"]);
+    expect(tokenizeDirective("-1 =x,Name", true).errors).toEqual(['unexpected "=" at column 4']);
+
+    const tokens = tokenizeDirective('-1 tvg-name="open,Name', true);
+    expect(tokens.errors).toEqual(["unterminated quote in tvg-name"]);
+    expect(tokens.attributes["tvg-name"]).toBe("open,Name");
+    expect(tokens.title).toBeUndefined();
+  });
+
+  it("reads header attributes without a duration", () => {
+    expect(tokenizeDirective(' x-tvg-url="http://epg/a.xml" catchup=append', false)).toEqual({
+      attributes: { "x-tvg-url": "http://epg/a.xml", catchup: "append" },
+      errors: [],
+    });
+  });
+});
+
+describe("parseM3U", () => {
+  it("maps header and entry attributes onto the playlist and its channels", () => {
+    const playlist = parseM3U(
+      [
+        '\uFEFF#EXTM3U x-tvg-url="http://epg/a.xml,http://epg/b.xml" x-tvg-timezone="+0800" catchup-days=3',
+        '#EXTINF:-1 tvg-id="cctv1" tvg-chno="1" tvg-logo="http://logo/1.png" group-title="央视",CCTV-1',
+        "#EXTVLCOPT:http-user-agent=Player/1.0",
+        "http://tv/cctv1",
+      ].join("\r\n"),
+    );
+
+    expect(playlist.tvgUrl).toBe("http://epg/a.xml");
+    expect(playlist.epgTimezone).toBe("+0800");
+    expect(playlist.groups).toEqual(["央视"]);
+    expect(playlist.warnings).toEqual([]);
+    expect(playlist.channels[0]).toMatchObject({
+      id: "cctv1",
+      name: "CCTV-1",
+      group: "央视",
+      url: "http://tv/cctv1",
+      logo: "http://logo/1.png",
+      tvgChno: 1,
+      catchupDays: 3,
+      userAgent: "Player/1.0",
+    });
+  });
+
+  it("applies #EXTGRP to the next entry or, outside an entry, to the following ones", () => {
+    const playlist = parseM3U(
+      ["#EXTM3U", "#EXTGRP:Sticky", "#EXTINF:-1,A", "http://tv/a", "#EXTINF:-1,B", "#EXTGRP:Own", "http://tv/b"].join(
+        "\n",
+      ),
+    );
+    expect(playlist.channels.map((channel) => channel.group)).toEqual(["Sticky", "Own"]);
+  });
+
+  it("reports malformed entries by line and skips URLs without #EXTINF", () => {
+    const playlist = parseM3U(["#EXTINF:-1,A", "#EXTINF:-1,B", "http://tv/b", "http://tv/orphan"].join("\n"));
+
+    expect(playlist.channels.map((channel) => channel.name)).toEqual(["B"]);
+    expect(playlist.warnings).toEqual([
+      { line: 1, message: "#EXTINF without a stream URL" },
+      { line: 4, message: "stream URL without a preceding #EXTINF" },
+      { line: 1, message: "missing #EXTM3U header" },
+    ]);
+  });
+});
+
+describe("duplicate channels", () => {
+  it("gives repeated names unique ids in playlist order", () => {
+    const playlist = parseM3U(
+      [
+        "#EXTM3U",
+        "#EXTINF:-1,News",
+        "http://tv/1",
+        "#EXTINF:-1,News",
+        "http://tv/2",
+        "#EXTINF:-1,News",
+        "http://tv/3",
+      ].join("\n"),
+    );
+    expect(playlist.channels.map((channel) => channel.id)).toEqual(["News", "News#2", "News#3"]);
+  });
+
+  it("merges entries repeating a tvg-id into failover sources of the first one", () => {
+    const playlist = parseM3U(
+      [
+        "#EXTM3U",
+        '#EXTINF:-1 tvg-id="cctv1" group-title="A",CCTV-1',
+        "http://primary/cctv1",
+        '#EXTINF:-1 tvg-id="cctv1" group-title="B" catchup="shift",CCTV-1 backup',
+        "http://backup/cctv1",
+        '#EXTINF:-1 tvg-id="cctv1",CCTV-1 again',
+        "http://primary/cctv1",
+      ].join("\n"),
+    );
+
+    expect(playlist.channels).toHaveLength(1);
+    expect(playlist.groups).toEqual(["A"]);
+    const [channel] = playlist.channels;
+    expect(channel.sources.map((source) => source.url)).toEqual(["http://primary/cctv1", "http://backup/cctv1"]);
+    expect(channel.sources[1].catchup).toBe("shift");
+  });
+});
+
+describe("getChannelWithSource", () => {
+  const [channel] = parseM3U(
+    [
+      "#EXTM3U",
+      '#EXTINF:-1 tvg-id="a" http-user-agent="UA",A',
+      "http://primary/a",
+      '#EXTINF:-1 tvg-id="a" catchup="shift",A',
+      "http://backup/a",
+    ].join("\n"),
+  ).channels;
+
+  it("returns the channel itself for the first or an unknown source", () => {
+    expect(getChannelWithSource(channel, 0)).toBe(channel);
+    expect(getChannelWithSource(channel, 5)).toBe(channel);
+  });
+
+  it("takes the url and playback settings of an alternate source", () => {
+    const backup = getChannelWithSource(channel, 1);
+    expect(backup).toMatchObject({ id: "a", name: "A", url: "http://backup/a", catchup: "shift" });
+    expect(backup.userAgent).toBeUndefined();
+  });
+});
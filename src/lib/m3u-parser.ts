@@ -1,111 +1,332 @@
-import { Channel, M3UMetadata } from "../types/player";
+import { Channel, ChannelSource, M3UMetadata, M3UParseWarning } from "../types/player";
+
+/**
+ * Parse a catchup-days attribute value
+ * @returns Positive number of days, or undefined if missing or invalid
+ */
+function parseCatchupDays(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const days = parseFloat(value);
+  return Number.isFinite(days) && days > 0 ? days : undefined;
+}
+
+interface DirectiveTokens {
+  /** Leading duration of #EXTINF, if present */
+  duration?: number;
+  attributes: Record<string, string>;
+  /** Text after the first comma outside quotes */
+  title?: string;
+  errors: string[];
+}
+
+/**
+ * Tokenize the body of an #EXTINF or #EXTM3U line
+ * Handles quoted ("..." or '...') and unquoted values, valueless flags and commas inside quotes.
+ * Attribute keys are lower-cased; the first occurrence of a key wins.
+ * @param body - Line content after the directive name
+ * @param withDuration - Whether the body starts with an #EXTINF duration
+ */
+export function tokenizeDirective(body: string, withDuration: boolean): DirectiveTokens {
+  const result: DirectiveTokens = { attributes: {}, errors: [] };
+  let position = 0;
+  const skipWhitespace = () => {
+    while (position < body.length && /\s/.test(body[position])) position++;
+  };
+
+  if (withDuration) {
+    skipWhitespace();
+    const match = body.slice(position).match(/^[+-]?\d+(?:\.\d+)?/);
+    if (match) {
+      result.duration = parseFloat(match[0]);
+      position += match[0].length;
+    } else {
+      result.errors.push("missing #EXTINF duration");
+    }
+  }
+
+  while (position < body.length) {
+    skipWhitespace();
+    if (position >= body.length) break;
+
+    if (body[position] === ",") {
+      result.title = body.slice(position + 1).trim();
+      return result;
+    }
+
+    const keyStart = position;
+    while (position < body.length && !/[\s=,]/.test(body[position])) position++;
+    const key = body.slice(keyStart, position).toLowerCase();
+    if (!key) {
+      // Stray "=" without a key
+      result.errors.push(`unexpected "${body[position]}" at column ${position + 1}`);
+      position++;
+      continue;
+    }
+
+    let value = "";
+    if (body[position] === "=") {
+      position++;
+      const quote = body[position];
+      if (quote === '"' || quote === "'") {
+        const end = body.indexOf(quote, position + 1);
+        if (end === -1) {
+          result.errors.push(`unterminated quote in ${key}`);
+          value = body.slice(position + 1);
+          position = body.length;
+        } else {
+          value = body.slice(position + 1, end);
+          position = end + 1;
+        }
+      } else {
+        const valueStart = position;
+        while (position < body.length && !/[\s,]/.test(body[position])) position++;
+        value = body.slice(valueStart, position);
+      }
+    }
+
+    if (!(key in result.attributes)) {
+      result.attributes[key] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse a "key=value" directive payload such as #EXTVLCOPT or #KODIPROP
+ */
+function parseKeyValue(payload: string): [string, string] | null {
+  const separator = payload.indexOf("=");
+  if (separator <= 0) return null;
+  return [payload.slice(0, separator).trim().toLowerCase(), payload.slice(separator + 1).trim()];
+}
+
+/**
+ * Parse an integer/float attribute, reporting values that are not numbers
+ */
+function parseNumberAttribute(
+  value: string | undefined,
+  name: string,
+  warn: (message: string) => void,
+): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const number = parseFloat(value);
+  if (!Number.isFinite(number)) {
+    warn(`invalid ${name} "${value}"`);
+    return undefined;
+  }
+  return number;
+}
+
+/**
+ * Make an id unique by appending "#2", "#3", ... in playlist order
+ */
+function uniqueId(base: string, usedIds: Set<string>): string {
+  let id = base;
+  for (let n = 2; usedIds.has(id); n++) {
+    id = `${base}#${n}`;
+  }
+  usedIds.add(id);
+  return id;
+}
+
+/**
+ * Get a channel as played through one of its sources
+ * @param channel - Channel with alternate sources
+ * @param sourceIndex - Index into channel.sources (out-of-range falls back to the channel itself)
+ * @returns Channel whose url and catchup settings come from that source
+ */
+export function getChannelWithSource(channel: Channel, sourceIndex: number): Channel {
+  const source = channel.sources[sourceIndex];
+  if (!source || sourceIndex === 0) return channel;
+  return { ...channel, ...source };
+}
+
+interface PendingEntry {
+  line: number;
+  duration?: number;
+  attributes: Record<string, string>;
+  title?: string;
+  group?: string;
+  vlcOptions: Record<string, string>;
+  kodiProps: Record<string, string>;
+}
 
 /**
  * Parse M3U playlist string
+ * Every #EXTINF attribute is kept in Channel.attributes; well-known ones are also mapped to typed fields.
+ * Directives between #EXTINF and the URL (#EXTGRP, #EXTVLCOPT, #KODIPROP) apply to that entry.
+ * Entries repeating an earlier tvg-id are merged into it as alternate sources.
  * @param m3uContent - M3U content string
- * @returns M3UMetadata object
+ * @returns M3UMetadata object with line-numbered warnings for malformed entries
  */
 export function parseM3U(m3uContent: string): M3UMetadata {
-  const lines = m3uContent.split(/\r?\n/);
+  const lines = m3uContent.replace(/^\uFEFF/, "").split(/\r?\n/);
   const channels: Channel[] = [];
   const groups = new Set<string>();
-  let currentMeta: Partial<Channel> = {};
-  let tvgUrl: string | undefined;
+  // Channels by tvg-id, so repeated entries become alternate sources of the first one
+  const channelsByTvgId = new Map<string, Channel>();
+  const usedIds = new Set<string>();
+  const warnings: M3UParseWarning[] = [];
+  let headerAttributes: Record<string, string> = {};
+  let sawHeader = false;
+  let pending: PendingEntry | null = null;
+  // #EXTGRP outside an entry applies to the following entries without group-title
+  let stickyGroup: string | undefined;
+
+  const warn = (line: number, message: string) => {
+    warnings.push({ line, message });
+  };
 
-  for (const line of lines) {
+  for (const [index, line] of lines.entries()) {
+    const lineNumber = index + 1;
     const trimmedLine = line.trim();
-    
+
     // Skip empty lines
     if (!trimmedLine) continue;
-    
-    // Parse EXTM3U header (may contain TVG URL)
+
+    // Parse EXTM3U header (TVG URL, EPG timezone, catchup defaults)
     if (trimmedLine.startsWith("#EXTM3U")) {
-      const tvgUrlMatch = trimmedLine.match(/tvg-url="([^"]+)"/);
-      if (tvgUrlMatch) {
-        tvgUrl = tvgUrlMatch[1];
-      }
+      const tokens = tokenizeDirective(trimmedLine.substring(7), false);
+      tokens.errors.forEach((error) => warn(lineNumber, `#EXTM3U: ${error}`));
+      headerAttributes = { ...tokens.attributes, ...headerAttributes };
+      sawHeader = true;
       continue;
     }
-    
+
     // Parse EXTINF line (channel metadata)
     if (trimmedLine.startsWith("#EXTINF:")) {
-      // Reset current meta
-      currentMeta = {};
-      
-      // Extract metadata from EXTINF line
-      const infLine = trimmedLine.substring(8); // Remove "#EXTINF:"
-      
-      // Parse TVG ID
-      const tvgIdMatch = infLine.match(/tvg-id="([^"]+)"/);
-      if (tvgIdMatch) {
-        currentMeta.tvgId = tvgIdMatch[1];
-      }
-      
-      // Parse TVG Name
-      const tvgNameMatch = infLine.match(/tvg-name="([^"]+)"/);
-      if (tvgNameMatch) {
-        currentMeta.tvgName = tvgNameMatch[1];
-      }
-      
-      // Parse TVG Logo
-      const tvgLogoMatch = infLine.match(/tvg-logo="([^"]+)"/);
-      if (tvgLogoMatch) {
-        currentMeta.logo = tvgLogoMatch[1];
-      }
-      
-      // Parse Group
-      const groupMatch = infLine.match(/group-title="([^"]+)"/);
-      if (groupMatch) {
-        currentMeta.group = groupMatch[1];
-        groups.add(groupMatch[1]);
+      if (pending) {
+        warn(pending.line, "#EXTINF without a stream URL");
       }
-      
-      // Parse Catchup
-      const catchupMatch = infLine.match(/catchup="([^"]+)"/);
-      if (catchupMatch) {
-        currentMeta.catchup = catchupMatch[1];
+      const tokens = tokenizeDirective(trimmedLine.substring(8), true);
+      tokens.errors.forEach((error) => warn(lineNumber, `#EXTINF: ${error}`));
+      pending = {
+        line: lineNumber,
+        duration: tokens.duration,
+        attributes: tokens.attributes,
+        title: tokens.title,
+        vlcOptions: {},
+        kodiProps: {},
+      };
+      if (tokens.title === undefined) {
+        warn(lineNumber, "#EXTINF has no channel name after the comma");
       }
-      
-      // Parse Catchup Source
-      const catchupSourceMatch = infLine.match(/catchup-source="([^"]+)"/);
-      if (catchupSourceMatch) {
-        currentMeta.catchupSource = catchupSourceMatch[1];
+      continue;
+    }
+
+    if (trimmedLine.startsWith("#EXTGRP:")) {
+      const group = trimmedLine.substring(8).trim();
+      if (pending) {
+        pending.group = group || undefined;
+      } else {
+        stickyGroup = group || undefined;
       }
-      
-      // Parse channel name (after last comma)
-      const nameMatch = infLine.split(/,\s*/).pop();
-      if (nameMatch) {
-        currentMeta.name = nameMatch.trim();
+      continue;
+    }
+
+    if (trimmedLine.startsWith("#EXTVLCOPT:") || trimmedLine.startsWith("#KODIPROP:")) {
+      const isVlc = trimmedLine.startsWith("#EXTVLCOPT:");
+      const pair = parseKeyValue(trimmedLine.substring(isVlc ? 11 : 10));
+      if (!pair) {
+        warn(lineNumber, `malformed ${isVlc ? "#EXTVLCOPT" : "#KODIPROP"} directive`);
+      } else if (!pending) {
+        warn(lineNumber, `${isVlc ? "#EXTVLCOPT" : "#KODIPROP"} outside of an entry`);
+      } else {
+        (isVlc ? pending.vlcOptions : pending.kodiProps)[pair[0]] = pair[1];
       }
-      
       continue;
     }
-    
+
     // Skip other comment lines
     if (trimmedLine.startsWith("#")) continue;
-    
+
     // This is the channel URL line
-    if (currentMeta.name) {
-      const channel: Channel = {
-        id: currentMeta.tvgId || currentMeta.name || `channel-${channels.length}`,
-        name: currentMeta.name || `Channel ${channels.length + 1}`,
-        group: currentMeta.group || "Default",
-        url: trimmedLine,
-        logo: currentMeta.logo,
-        tvgId: currentMeta.tvgId,
-        tvgName: currentMeta.tvgName,
-        catchup: currentMeta.catchup,
-        catchupSource: currentMeta.catchupSource,
-      };
-      
-      channels.push(channel);
-      currentMeta = {};
+    if (!pending) {
+      warn(lineNumber, "stream URL without a preceding #EXTINF");
+      continue;
+    }
+
+    const entry: PendingEntry = pending;
+    pending = null;
+    const entryWarn = (message: string) => warn(entry.line, message);
+    const attributes = entry.attributes;
+
+    const name = entry.title || attributes["tvg-name"] || `Channel ${channels.length + 1}`;
+    const group = attributes["group-title"] || entry.group || stickyGroup || "Default";
+    const tvgId = attributes["tvg-id"] || undefined;
+
+    const source: ChannelSource = {
+      url: trimmedLine,
+      catchup: attributes["catchup"] || headerAttributes["catchup"] || undefined,
+      catchupSource: attributes["catchup-source"] || headerAttributes["catchup-source"] || undefined,
+      catchupDays: parseCatchupDays(attributes["catchup-days"]) ?? parseCatchupDays(headerAttributes["catchup-days"]),
+      userAgent: attributes["http-user-agent"] || entry.vlcOptions["http-user-agent"] || undefined,
+      referrer:
+        attributes["http-referrer"] ||
+        attributes["http-referer"] ||
+        entry.vlcOptions["http-referrer"] ||
+        entry.vlcOptions["http-referer"] ||
+        undefined,
+    };
+
+    const existing = tvgId ? channelsByTvgId.get(tvgId) : undefined;
+    if (existing) {
+      if (!existing.sources.some((other) => other.url === source.url)) {
+        existing.sources.push(source);
+      }
+      continue;
     }
+    groups.add(group);
+
+    const channel: Channel = {
+      id: uniqueId(tvgId || name, usedIds),
+      name,
+      group,
+      url: trimmedLine,
+      logo: attributes["tvg-logo"] || attributes["logo"] || undefined,
+      tvgId,
+      tvgName: attributes["tvg-name"] || undefined,
+      catchup: source.catchup,
+      catchupSource: source.catchupSource,
+      catchupDays: source.catchupDays,
+      tvgChno: parseNumberAttribute(attributes["tvg-chno"], "tvg-chno", entryWarn),
+      tvgShift: parseNumberAttribute(attributes["tvg-shift"], "tvg-shift", entryWarn),
+      tvgLanguage: attributes["tvg-language"] || undefined,
+      tvgCountry: attributes["tvg-country"] || undefined,
+      userAgent: source.userAgent,
+      referrer: source.referrer,
+      radio: attributes["radio"] !== undefined ? attributes["radio"].toLowerCase() !== "false" : undefined,
+      duration: entry.duration,
+      attributes,
+      vlcOptions: Object.keys(entry.vlcOptions).length > 0 ? entry.vlcOptions : undefined,
+      kodiProps: Object.keys(entry.kodiProps).length > 0 ? entry.kodiProps : undefined,
+      sources: [source],
+    };
+
+    if (tvgId) channelsByTvgId.set(tvgId, channel);
+    channels.push(channel);
   }
-  
+
+  if (pending) {
+    warn(pending.line, "#EXTINF without a stream URL");
+  }
+  if (!sawHeader && channels.length > 0) {
+    warn(1, "missing #EXTM3U header");
+  }
+
+  // The first URL of a comma-separated x-tvg-url list is used
+  const tvgUrl = (headerAttributes["x-tvg-url"] || headerAttributes["url-tvg"] || headerAttributes["tvg-url"])
+    ?.split(",")[0]
+    .trim();
+
   return {
-    tvgUrl,
+    tvgUrl: tvgUrl || undefined,
+    // Timezone for EPG timestamps that omit their offset
+    epgTimezone: headerAttributes["x-tvg-timezone"] || headerAttributes["tvg-timezone"] || undefined,
     channels,
     groups: Array.from(groups).sort(),
+    attributes: headerAttributes,
+    warnings,
   };
 }
@@ -0,0 +1,102 @@
+import { PlaylistSource } from "../types/player";
+import { EPGData } from "./epg-parser";
+import { IDB_STORES, idbGet, idbPut } from "./idb";
+import type { MergedPlaylist } from "./playlist-sources";
+
+/** Programmes that ended longer ago than this are dropped before caching */
+export const EPG_CACHE_MAX_AGE_DAYS = 7;
+
+const CACHE_KEYS = {
+  PLAYLIST: "playlist",
+  EPG: "epg",
+} as const;
+
+/** A cached value with the time it was saved */
+export interface CachedEntry<T> {
+  /** Milliseconds since epoch */
+  savedAt: number;
+  /** Identifies the playlist sources the data was loaded from */
+  sourcesKey: string;
+  data: T;
+}
+
+/**
+ * Build a key identifying a set of enabled sources, so a cache is never used for a different lineup
+ */
+export function getPlaylistSourcesKey(sources: PlaylistSource[]): string {
+  return JSON.stringify(
+    sources
+      .filter((source) => source.enabled)
+      .map((source) => [source.id, source.kind, source.url, source.fileId, source.epgUrl, source.epgFileId]),
+  );
+}
+
+/**
+ * Drop programmes that ended before the cutoff
+ * @param epgData - Guide to trim (not modified)
+ * @param maxAgeDays - Days of past programmes to keep
+ * @param now - Reference time
+ * @returns Trimmed copy without channels left empty
+ */
+export function trimEPGData(epgData: EPGData, maxAgeDays = EPG_CACHE_MAX_AGE_DAYS, now = new Date()): EPGData {
+  const cutoff = now.getTime() - maxAgeDays * 24 * 3600 * 1000;
+  const trimmed: EPGData = {};
+  Object.entries(epgData).forEach(([channelId, programs]) => {
+    const kept = programs.filter((program) => program.end.getTime() >= cutoff);
+    if (kept.length > 0) trimmed[channelId] = kept;
+  });
+  return trimmed;
+}
+
+/**
+ * Read a cache entry if it was saved for the same sources
+ */
+async function getCached<T>(key: string, sourcesKey: string): Promise<CachedEntry<T> | null> {
+  try {
+    const entry = await idbGet<CachedEntry<T>>(IDB_STORES.CACHE, key);
+    return entry && entry.sourcesKey === sourcesKey ? entry : null;
+  } catch (error) {
+    console.error(`Failed to read cached ${key}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Write a cache entry; failures (e.g. quota exceeded) are logged and ignored
+ */
+async function saveCached<T>(key: string, sourcesKey: string, data: T): Promise<void> {
+  try {
+    await idbPut<CachedEntry<T>>(IDB_STORES.CACHE, key, { savedAt: Date.now(), sourcesKey, data });
+  } catch (error) {
+    console.error(`Failed to cache ${key}:`, error);
+  }
+}
+
+/**
+ * Remember the last successfully loaded lineup
+ */
+export function savePlaylistCache(sourcesKey: string, playlist: MergedPlaylist): Promise<void> {
+  // Errors of failed sources only matter for the load that produced them
+  return saveCached(CACHE_KEYS.PLAYLIST, sourcesKey, { ...playlist, failedSources: [] });
+}
+
+/**
+ * Get the last successfully loaded lineup for these sources
+ */
+export function getPlaylistCache(sourcesKey: string): Promise<CachedEntry<MergedPlaylist> | null> {
+  return getCached<MergedPlaylist>(CACHE_KEYS.PLAYLIST, sourcesKey);
+}
+
+/**
+ * Remember the last successfully loaded guide, trimmed to EPG_CACHE_MAX_AGE_DAYS
+ */
+export function saveEPGCache(sourcesKey: string, epgData: EPGData): Promise<void> {
+  return saveCached(CACHE_KEYS.EPG, sourcesKey, trimEPGData(epgData));
+}
+
+/**
+ * Get the last successfully loaded guide for these sources
+ */
+export function getEPGCache(sourcesKey: string): Promise<CachedEntry<EPGData> | null> {
+  return getCached<EPGData>(CACHE_KEYS.EPG, sourcesKey);
+}
@@ -2,11 +2,26 @@
  * LocalStorage utilities for player state persistence
  */
 
+import { PlaylistSource, ProgramReminder, ScheduledRecording, WatchHistoryEntry } from "../types/player";
+import { getDefaultPlaylistSources } from "./playlist-sources";
+import { DEFAULT_LIVE_TARGET_LATENCY, MAX_LIVE_TARGET_LATENCY, MIN_LIVE_TARGET_LATENCY } from "./live-sync";
+import { DEFAULT_TIMESHIFT_WINDOW_MINUTES, MAX_TIMESHIFT_WINDOW_MINUTES } from "./timeshift-buffer";
+
 const STORAGE_KEYS = {
   LAST_CHANNEL_ID: "rtp2httpd-player-last-channel-id",
   SIDEBAR_VISIBLE: "rtp2httpd-player-sidebar-visible",
   CATCHUP_TAIL_OFFSET: "rtp2httpd-player-catchup-tail-offset",
   FORCE_16_9: "rtp2httpd-player-force-16-9",
+  LIVE_TARGET_LATENCY: "rtp2httpd-player-live-target-latency",
+  TIMESHIFT_WINDOW: "rtp2httpd-player-timeshift-window",
+  PLAYLIST_SOURCES: "rtp2httpd-player-playlist-sources",
+  REFRESH_NOTIFICATIONS: "rtp2httpd-player-refresh-notifications",
+  FAVORITES: "rtp2httpd-player-favorites",
+  WATCH_HISTORY: "rtp2httpd-player-watch-history",
+  REMINDERS: "rtp2httpd-player-reminders",
+  SCHEDULED_RECORDINGS: "rtp2httpd-player-scheduled-recordings",
+  // Single custom playlist URL used before multiple sources were supported
+  LEGACY_CUSTOM_M3U_URL: "rtp2httpd-player-custom-m3u-url",
 } as const;
 
 /**
@@ -111,3 +126,237 @@ export function getForce16x9(): boolean {
     return true;
   }
 }
+
+/**
+ * Save the live target latency (in seconds)
+ * @param latency - Distance kept behind the live edge, in seconds
+ */
+export function saveLiveTargetLatency(latency: number): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.LIVE_TARGET_LATENCY, latency.toString());
+  } catch (error) {
+    console.error("Failed to save live target latency:", error);
+  }
+}
+
+/**
+ * Get the live target latency (in seconds)
+ * @returns The latency in seconds, or DEFAULT_LIVE_TARGET_LATENCY when unset or out of range
+ */
+export function getLiveTargetLatency(): number {
+  try {
+    const latency = parseFloat(localStorage.getItem(STORAGE_KEYS.LIVE_TARGET_LATENCY) ?? "");
+    return Number.isFinite(latency) && latency >= MIN_LIVE_TARGET_LATENCY && latency <= MAX_LIVE_TARGET_LATENCY
+      ? latency
+      : DEFAULT_LIVE_TARGET_LATENCY;
+  } catch (error) {
+    console.error("Failed to get live target latency:", error);
+    return DEFAULT_LIVE_TARGET_LATENCY;
+  }
+}
+
+/**
+ * Save the timeshift window (in minutes)
+ * @param minutes - Minutes of live stream kept for pause and rewind (0 disables timeshift)
+ */
+export function saveTimeshiftWindow(minutes: number): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.TIMESHIFT_WINDOW, minutes.toString());
+  } catch (error) {
+    console.error("Failed to save timeshift window:", error);
+  }
+}
+
+/**
+ * Get the timeshift window (in minutes)
+ * @returns The window in minutes, or DEFAULT_TIMESHIFT_WINDOW_MINUTES when unset or out of range
+ */
+export function getTimeshiftWindow(): number {
+  try {
+    const minutes = parseFloat(localStorage.getItem(STORAGE_KEYS.TIMESHIFT_WINDOW) ?? "");
+    return Number.isFinite(minutes) && minutes >= 0 && minutes <= MAX_TIMESHIFT_WINDOW_MINUTES
+      ? minutes
+      : DEFAULT_TIMESHIFT_WINDOW_MINUTES;
+  } catch (error) {
+    console.error("Failed to get timeshift window:", error);
+    return DEFAULT_TIMESHIFT_WINDOW_MINUTES;
+  }
+}
+
+/**
+ * Save the configured playlist sources
+ * @param sources - Sources in priority order
+ */
+export function savePlaylistSources(sources: PlaylistSource[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.PLAYLIST_SOURCES, JSON.stringify(sources));
+  } catch (error) {
+    console.error("Failed to save playlist sources:", error);
+  }
+}
+
+/**
+ * Get the configured playlist sources
+ * A custom M3U URL saved by older versions replaces the default source once and is then removed.
+ * @returns The sources or the default rtp2httpd playlist
+ */
+export function getPlaylistSources(): PlaylistSource[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.PLAYLIST_SOURCES);
+    if (stored !== null) {
+      return JSON.parse(stored);
+    }
+
+    const sources = getDefaultPlaylistSources();
+    const legacyUrl = localStorage.getItem(STORAGE_KEYS.LEGACY_CUSTOM_M3U_URL);
+    if (legacyUrl) {
+      sources[0].url = legacyUrl;
+      sources[0].name = legacyUrl;
+      savePlaylistSources(sources);
+      localStorage.removeItem(STORAGE_KEYS.LEGACY_CUSTOM_M3U_URL);
+    }
+    return sources;
+  } catch (error) {
+    console.error("Failed to get playlist sources:", error);
+    return getDefaultPlaylistSources();
+  }
+}
+
+/**
+ * Save whether a toast summarizes playlist changes found by background refreshes
+ * @param enabled - Whether to show the toast
+ */
+export function saveRefreshNotifications(enabled: boolean): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.REFRESH_NOTIFICATIONS, JSON.stringify(enabled));
+  } catch (error) {
+    console.error("Failed to save refresh notification setting:", error);
+  }
+}
+
+/**
+ * Get whether a toast summarizes playlist changes found by background refreshes
+ * @returns Whether to show the toast (default: true)
+ */
+export function getRefreshNotifications(): boolean {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.REFRESH_NOTIFICATIONS);
+    return stored !== null ? JSON.parse(stored) : true;
+  } catch (error) {
+    console.error("Failed to get refresh notification setting:", error);
+    return true;
+  }
+}
+
+/**
+ * Save the favorite channels
+ * @param keys - Channel keys (see getChannelKey) in display order
+ */
+export function saveFavorites(keys: string[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.FAVORITES, JSON.stringify(keys));
+  } catch (error) {
+    console.error("Failed to save favorites:", error);
+  }
+}
+
+/**
+ * Get the favorite channels
+ * @returns Channel keys in display order or an empty list
+ */
+export function getFavorites(): string[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.FAVORITES);
+    return stored !== null ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Failed to get favorites:", error);
+    return [];
+  }
+}
+
+/**
+ * Save the watch history
+ * @param entries - Entries, most recent first
+ */
+export function saveWatchHistory(entries: WatchHistoryEntry[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.WATCH_HISTORY, JSON.stringify(entries));
+  } catch (error) {
+    console.error("Failed to save watch history:", error);
+  }
+}
+
+/**
+ * Get the watch history
+ * @returns Entries, most recent first, or an empty list
+ */
+export function getWatchHistory(): WatchHistoryEntry[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.WATCH_HISTORY);
+    return stored !== null ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Failed to get watch history:", error);
+    return [];
+  }
+}
+
+/**
+ * Delete the watch history
+ */
+export function clearWatchHistory(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEYS.WATCH_HISTORY);
+  } catch (error) {
+    console.error("Failed to clear watch history:", error);
+  }
+}
+
+/**
+ * Save the programme reminders
+ */
+export function saveReminders(reminders: ProgramReminder[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.REMINDERS, JSON.stringify(reminders));
+  } catch (error) {
+    console.error("Failed to save reminders:", error);
+  }
+}
+
+/**
+ * Get the programme reminders
+ * @returns Reminders, or an empty list
+ */
+export function getReminders(): ProgramReminder[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.REMINDERS);
+    return stored !== null ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Failed to get reminders:", error);
+    return [];
+  }
+}
+
+/**
+ * Save the scheduled recordings
+ */
+export function saveScheduledRecordings(recordings: ScheduledRecording[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.SCHEDULED_RECORDINGS, JSON.stringify(recordings));
+  } catch (error) {
+    console.error("Failed to save scheduled recordings:", error);
+  }
+}
+
+/**
+ * Get the scheduled recordings
+ * @returns Scheduled recordings, or an empty list
+ */
+export function getScheduledRecordings(): ScheduledRecording[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.SCHEDULED_RECORDINGS);
+    return stored !== null ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Failed to get scheduled recordings:", error);
+    return [];
+  }
+}
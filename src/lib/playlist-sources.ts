@@ -0,0 +1,266 @@
+import { Channel, EPGSource, M3UMetadata, PlaylistSource } from "../types/player";
+import { parseM3U } from "./m3u-parser";
+import { getLocalFile, isGuideFile, isPlaylistFile, pruneLocalFiles, saveLocalFile } from "./local-files";
+import { CacheValidators, conditionalFetch, retryWithBackoff, RetryOptions } from "./conditional-fetch";
+
+/** Playlist served by rtp2httpd itself */
+export const DEFAULT_PLAYLIST_URL = "/playlist.m3u";
+
+export const DEFAULT_PLAYLIST_SOURCE_ID = "default";
+
+/** Lineup merged from all enabled playlist sources */
+export interface MergedPlaylist extends M3UMetadata {
+  /** Guides to load, one per source that has an EPG URL or imported guide file */
+  epgSources: EPGSource[];
+  /** Sources that could not be loaded, with the reason */
+  failedSources: { source: PlaylistSource; error: Error }[];
+}
+
+export interface LoadPlaylistSourcesOptions {
+  /** Retry failed downloads; no retries when omitted */
+  retry?: Omit<RetryOptions, "signal">;
+  signal?: AbortSignal;
+}
+
+/** Last downloaded text of each playlist URL, reused while the server answers 304 */
+const playlistCache = new Map<string, { validators: CacheValidators; text: string }>();
+
+/**
+ * Create the source list used before the user configured anything
+ */
+export function getDefaultPlaylistSources(): PlaylistSource[] {
+  return [
+    {
+      id: DEFAULT_PLAYLIST_SOURCE_ID,
+      name: "rtp2httpd",
+      kind: "url",
+      url: DEFAULT_PLAYLIST_URL,
+      enabled: true,
+    },
+  ];
+}
+
+/**
+ * Create a new playlist source with a fresh id
+ * @param fields - Everything but the id
+ */
+export function createPlaylistSource(fields: Omit<PlaylistSource, "id">): PlaylistSource {
+  const random = Math.random().toString(36).slice(2, 8);
+  return { ...fields, id: `source-${Date.now().toString(36)}-${random}` };
+}
+
+/**
+ * Get the playlist text of a source
+ * URLs are requested conditionally (ETag / Last-Modified) and the previous text is reused on 304.
+ * @param source - URL, text or imported file source
+ * @param options - Retry policy and abort signal
+ */
+export async function readPlaylistSource(source: PlaylistSource, options: LoadPlaylistSourcesOptions = {}): Promise<string> {
+  if (source.kind === "text") {
+    return source.content || "";
+  }
+
+  if (source.kind === "file") {
+    const file = source.fileId ? await getLocalFile(source.fileId) : undefined;
+    if (!file) {
+      throw new Error("Imported file is missing");
+    }
+    return file.blob.text();
+  }
+
+  const { retry, signal } = options;
+  const url = source.url || DEFAULT_PLAYLIST_URL;
+  const cached = playlistCache.get(url);
+  const result = await retryWithBackoff(() => conditionalFetch(url, cached?.validators, signal), {
+    retries: 0,
+    ...retry,
+    signal,
+  });
+  if (!result.modified) {
+    return cached?.text ?? "";
+  }
+
+  const text = await result.response.text();
+  playlistCache.set(url, { validators: result.validators, text });
+  return text;
+}
+
+/**
+ * Store picked or dropped files and add them to the source list
+ * Each playlist file becomes a new enabled source. Guide files are attached to the first
+ * playlist imported alongside them, or else to guideTargetId or the first enabled source.
+ * @param files - Files in any order; files that are neither playlists nor guides are ignored
+ * @param sources - Current sources
+ * @param guideTargetId - Source that receives a guide imported without a playlist
+ * @returns Updated source list
+ */
+export async function importLocalFiles(
+  files: File[],
+  sources: PlaylistSource[],
+  guideTargetId?: string,
+): Promise<PlaylistSource[]> {
+  const playlists = files.filter(isPlaylistFile);
+  const guide = files.find((file) => isGuideFile(file) && !isPlaylistFile(file));
+  const next = [...sources];
+
+  for (const file of playlists) {
+    next.push(
+      createPlaylistSource({ name: file.name, kind: "file", fileId: await saveLocalFile(file), enabled: true }),
+    );
+  }
+
+  if (guide) {
+    let targetIndex = playlists.length > 0 ? sources.length : next.findIndex((source) => source.id === guideTargetId);
+    if (targetIndex < 0) targetIndex = next.findIndex((source) => source.enabled);
+    if (targetIndex >= 0) {
+      next[targetIndex] = { ...next[targetIndex], epgFileId: await saveLocalFile(guide), epgFileName: guide.name };
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Delete imported files no longer used by any source
+ */
+export function pruneUnusedLocalFiles(sources: PlaylistSource[]): Promise<void> {
+  const ids = sources.flatMap((source) => [source.fileId, source.epgFileId]).filter((id): id is string => !!id);
+  return pruneLocalFiles(ids);
+}
+
+/**
+ * Normalize a group name for conflict detection: "CCTV ", "cctv" and full-width "ＣＣＴＶ" are the same group
+ */
+function normalizeGroupName(group: string): string {
+  return group.normalize("NFKC").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Merge parsed playlists into one lineup
+ * Sources are merged in order, so earlier sources win every conflict:
+ * - channels sharing a tvg-id become one channel whose later URLs are alternate sources;
+ *   the later source's guide is still filtered to include it, filling in where earlier guides lack it
+ * - other channels keep their ids, with "#2", "#3", ... appended when an id is already taken
+ * - group names differing only in case, width or whitespace use the first spelling
+ * @param playlists - Parsed playlists with the source each came from, in priority order
+ * @returns Merged metadata plus the guide to load for each source
+ */
+export function mergePlaylists(
+  playlists: { source: PlaylistSource; metadata: M3UMetadata; epgFile?: Blob }[],
+): MergedPlaylist {
+  const channels: Channel[] = [];
+  const channelsByTvgId = new Map<string, Channel>();
+  const usedIds = new Set<string>();
+  // Normalized group name -> spelling shown in the lineup
+  const groupNames = new Map<string, string>();
+  const epgSources: EPGSource[] = [];
+  const merged: MergedPlaylist = {
+    channels,
+    groups: [],
+    attributes: {},
+    warnings: [],
+    epgSources,
+    failedSources: [],
+  };
+
+  for (const { source, metadata, epgFile } of playlists) {
+    const sourceChannels: Channel[] = [];
+
+    for (const parsed of metadata.channels) {
+      const existing = parsed.tvgId ? channelsByTvgId.get(parsed.tvgId) : undefined;
+      if (existing) {
+        for (const alternate of parsed.sources) {
+          if (!existing.sources.some((other) => other.url === alternate.url)) {
+            existing.sources.push(alternate);
+          }
+        }
+        if (!sourceChannels.includes(existing)) sourceChannels.push(existing);
+        continue;
+      }
+
+      const key = normalizeGroupName(parsed.group);
+      if (!groupNames.has(key)) groupNames.set(key, parsed.group);
+
+      let id = parsed.id;
+      for (let n = 2; usedIds.has(id); n++) {
+        id = `${parsed.id}#${n}`;
+      }
+      usedIds.add(id);
+
+      const channel: Channel = {
+        ...parsed,
+        id,
+        group: groupNames.get(key) as string,
+        sources: [...parsed.sources],
+        playlistSourceId: source.id,
+      };
+      if (channel.tvgId) channelsByTvgId.set(channel.tvgId, channel);
+      channels.push(channel);
+      sourceChannels.push(channel);
+    }
+
+    // Header attributes and the guide timezone of the first source that sets them win
+    merged.attributes = { ...metadata.attributes, ...merged.attributes };
+    merged.epgTimezone ??= metadata.epgTimezone;
+    merged.warnings.push(...metadata.warnings);
+
+    const epgUrl = source.epgUrl || metadata.tvgUrl;
+    if (epgFile) {
+      epgSources.push({
+        source: epgFile,
+        label: source.epgFileName || source.name,
+        timezone: metadata.epgTimezone,
+        channels: sourceChannels,
+      });
+    } else if (epgUrl) {
+      merged.tvgUrl ??= epgUrl;
+      epgSources.push({ source: epgUrl, label: epgUrl, timezone: metadata.epgTimezone, channels: sourceChannels });
+    }
+  }
+
+  merged.groups = Array.from(groupNames.values());
+  return merged;
+}
+
+/**
+ * Load, parse and merge every enabled source
+ * A source that fails is reported in failedSources; only when all of them fail is an error thrown.
+ * @param sources - Configured sources in priority order
+ * @param options - Retry policy and abort signal
+ */
+export async function loadPlaylistSources(
+  sources: PlaylistSource[],
+  options: LoadPlaylistSourcesOptions = {},
+): Promise<MergedPlaylist> {
+  const enabled = sources.filter((source) => source.enabled);
+  if (enabled.length === 0) {
+    throw new Error("No playlist source is enabled");
+  }
+
+  const results = await Promise.allSettled(
+    enabled.map(async (source) => {
+      const text = await readPlaylistSource(source, options);
+      const epgFile = source.epgFileId ? await getLocalFile(source.epgFileId) : undefined;
+      return { text, epgFile: epgFile?.blob };
+    }),
+  );
+  const playlists: { source: PlaylistSource; metadata: M3UMetadata; epgFile?: Blob }[] = [];
+  const failedSources: { source: PlaylistSource; error: Error }[] = [];
+
+  results.forEach((result, index) => {
+    const source = enabled[index];
+    if (result.status === "fulfilled") {
+      playlists.push({ source, metadata: parseM3U(result.value.text), epgFile: result.value.epgFile });
+    } else {
+      const error = result.reason instanceof Error ? result.reason : new Error(String(result.reason));
+      failedSources.push({ source, error });
+    }
+  });
+
+  if (playlists.length === 0) {
+    const { source, error } = failedSources[0];
+    throw new Error(`${source.name}: ${error.message}`);
+  }
+
+  return { ...mergePlaylists(playlists), failedSources };
+}
@@ -0,0 +1,207 @@
+import { Channel } from "../types/player";
+import { captureTS, isAbortError } from "./ts-capture";
+
+/** Largest recording kept, whatever the storage allows */
+export const RECORDING_MAX_BYTES = 4 * 1024 * 1024 * 1024;
+
+/** Largest recording held in memory when OPFS is unavailable */
+const MEMORY_RECORDING_MAX_BYTES = 512 * 1024 * 1024;
+
+/** OPFS directory recordings are written to until they are downloaded */
+const RECORDINGS_DIRECTORY = "recordings";
+
+/** Share of the free storage quota a recording may fill */
+const QUOTA_SHARE = 0.9;
+
+const TS_PACKET_SIZE = 188;
+
+export type RecordingStopReason = "user" | "scheduled" | "ended" | "sizeLimit" | "error";
+
+export interface RecordingProgress {
+  bytes: number;
+  elapsedMs: number;
+}
+
+export interface RecordingResult {
+  file: Blob;
+  fileName: string;
+  bytes: number;
+  reason: RecordingStopReason;
+  error?: unknown;
+}
+
+export interface RecordingOptions {
+  /** Stream URL, or catchup segment URLs in playback order */
+  urls: string[];
+  fileName: string;
+  /** Size limit in bytes (default: RECORDING_MAX_BYTES, lowered to the free storage) */
+  maxBytes?: number;
+  onProgress?: (progress: RecordingProgress) => void;
+}
+
+export interface RecordingHandle {
+  /** Stop recording and finish the file */
+  stop: (reason?: RecordingStopReason) => Promise<RecordingResult>;
+  /** Resolves with the finished file however the recording stops */
+  done: Promise<RecordingResult>;
+}
+
+interface RecordingSink {
+  /** Size limit of the storage behind the sink */
+  maxBytes: number;
+  write: (chunk: Uint8Array) => Promise<void>;
+  close: () => Promise<Blob>;
+}
+
+/**
+ * Write to a file in the origin private file system, so long recordings stay out of memory
+ */
+async function createOPFSSink(fileName: string): Promise<RecordingSink> {
+  const root = await navigator.storage.getDirectory();
+  const directory = await root.getDirectoryHandle(RECORDINGS_DIRECTORY, { create: true });
+  const handle = await directory.getFileHandle(fileName, { create: true });
+  const writable = await handle.createWritable();
+
+  const { quota, usage } = await navigator.storage.estimate();
+  const free = quota !== undefined && usage !== undefined ? (quota - usage) * QUOTA_SHARE : RECORDING_MAX_BYTES;
+
+  return {
+    maxBytes: free,
+    write: (chunk) => writable.write(chunk as Uint8Array<ArrayBuffer>),
+    close: async () => {
+      await writable.close();
+      return handle.getFile();
+    },
+  };
+}
+
+function createMemorySink(): RecordingSink {
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  return {
+    maxBytes: MEMORY_RECORDING_MAX_BYTES,
+    write: async (chunk) => {
+      chunks.push(chunk as Uint8Array<ArrayBuffer>);
+    },
+    close: async () => new Blob(chunks, { type: "video/mp2t" }),
+  };
+}
+
+/**
+ * Start recording a stream's MPEG-TS bytes
+ * Writes to OPFS when available, otherwise to memory with a lower size limit.
+ * Recording stops on stop(), when a catchup stream ends, on the size limit or on a network error;
+ * the file received so far is kept in every case.
+ */
+export function startRecording({
+  urls,
+  fileName,
+  maxBytes = RECORDING_MAX_BYTES,
+  onProgress,
+}: RecordingOptions): RecordingHandle {
+  const controller = new AbortController();
+  const startedAt = Date.now();
+  let stopReason: RecordingStopReason | null = null;
+
+  const done = (async (): Promise<RecordingResult> => {
+    let sink: RecordingSink;
+    try {
+      sink = await createOPFSSink(fileName);
+    } catch (error) {
+      console.warn("OPFS unavailable, recording to memory:", error);
+      sink = createMemorySink();
+    }
+
+    const limit = Math.min(maxBytes, sink.maxBytes);
+    let bytes = 0;
+    let error: unknown;
+
+    try {
+      await captureTS(urls, {
+        signal: controller.signal,
+        onChunk: async (chunk) => {
+          if (bytes + chunk.byteLength > limit) {
+            // Keep whole TS packets up to the limit
+            const room = limit - bytes;
+            const fit = room - (room % TS_PACKET_SIZE);
+            if (fit > 0) {
+              await sink.write(chunk.subarray(0, fit));
+              bytes += fit;
+            }
+            stopReason ??= "sizeLimit";
+            controller.abort();
+            return;
+          }
+          await sink.write(chunk);
+          bytes += chunk.byteLength;
+          onProgress?.({ bytes, elapsedMs: Date.now() - startedAt });
+        },
+      });
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error("Recording failed:", err);
+        error = err;
+        stopReason ??= "error";
+      }
+    }
+
+    try {
+      return { file: await sink.close(), fileName, bytes, reason: stopReason ?? "ended", error };
+    } catch (err) {
+      // An unfinished file cannot be read back, so nothing was kept
+      console.error("Failed to finish recording:", err);
+      removeRecordingFile(fileName).catch((error) => console.error("Failed to remove recording file:", error));
+      return { file: new Blob([], { type: "video/mp2t" }), fileName, bytes: 0, reason: "error", error: err };
+    }
+  })();
+
+  return {
+    done,
+    stop: (reason = "user") => {
+      stopReason ??= reason;
+      controller.abort();
+      return done;
+    },
+  };
+}
+
+/**
+ * Build a file name for a recording, e.g. "CCTV-1 20250101-2000.ts"
+ */
+export function getRecordingFileName(channel: Pick<Channel, "name">, start: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const stamp = `${start.getFullYear()}${pad(start.getMonth() + 1)}${pad(start.getDate())}-${pad(start.getHours())}${pad(start.getMinutes())}`;
+  const name = channel.name.replace(/[\\/:*?"<>|]+/g, "_").trim() || "recording";
+  return `${name} ${stamp}.ts`;
+}
+
+/**
+ * Save a finished recording through the browser's downloads, then delete its OPFS copy
+ */
+export function downloadRecording(result: RecordingResult): void {
+  const url = URL.createObjectURL(result.file);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = result.fileName;
+  link.click();
+
+  // Keep the file readable until the download has had time to start
+  window.setTimeout(() => {
+    URL.revokeObjectURL(url);
+    removeRecordingFile(result.fileName).catch((error) => console.error("Failed to remove recording file:", error));
+  }, 60 * 1000);
+}
+
+/**
+ * Delete a recording's OPFS copy, if it has one
+ */
+async function removeRecordingFile(fileName: string): Promise<void> {
+  if (!navigator.storage?.getDirectory) return;
+  const root = await navigator.storage.getDirectory();
+  const directory = await root.getDirectoryHandle(RECORDINGS_DIRECTORY, { create: true });
+  try {
+    await directory.removeEntry(fileName);
+  } catch (error) {
+    // Memory recordings have no file
+    if (!(error instanceof DOMException && error.name === "NotFoundError")) throw error;
+  }
+}
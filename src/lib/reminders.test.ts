@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { Channel, EPGProgram, ProgramReminder } from "../types/player";
+import {
+  createReminder,
+  findReminder,
+  getDueReminders,
+  getNextReminderTime,
+  reattachReminders,
+  REMINDER_LEAD_MS,
+} from "./reminders";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const BASE = Date.UTC(2026, 0, 1, 20);
+
+const news: Channel = {
+  id: "News",
+  name: "News",
+  group: "",
+  url: "http://tv/news",
+  tvgId: "news",
+  attributes: {},
+  sources: [],
+};
+
+function program(title: string, startMinutes: number, endMinutes: number): EPGProgram {
+  return {
+    id: title,
+    title,
+    start: new Date(BASE + startMinutes * MINUTE),
+    end: new Date(BASE + endMinutes * MINUTE),
+  };
+}
+
+describe("createReminder / findReminder", () => {
+  it("keys a reminder on the channel key and programme start", () => {
+    const evening = program("Evening News", 0, 30);
+    const reminder = createReminder(news, evening, "en-US");
+
+    expect(reminder).toEqual({
+      id: `tvg:news@${BASE}`,
+      channelKey: "tvg:news",
+      channelName: "News",
+      programTitle: "Evening News",
+      programStart: BASE,
+      programEnd: BASE + 30 * MINUTE,
+    });
+    expect(findReminder([reminder], { ...news, id: "News#2" }, evening)).toBe(reminder);
+    expect(findReminder([reminder], news, program("Evening News", 30, 60))).toBeUndefined();
+  });
+});
+
+describe("reattachReminders", () => {
+  const now = new Date(BASE - HOUR);
+  const reminder = createReminder(news, program("Evening News", 0, 30), "en-US");
+
+  it("follows a programme the refreshed guide moved", () => {
+    const [moved] = reattachReminders([reminder], [news], { news: [program("Evening News", 15, 45)] }, now);
+    expect(moved).toMatchObject({ id: reminder.id, programStart: BASE + 15 * MINUTE, programEnd: BASE + 45 * MINUTE });
+  });
+
+  it("notifies again when the programme moved past the notification time", () => {
+    const notified = { ...reminder, notified: true };
+    const later = reattachReminders([notified], [news], { news: [program("Evening News", 2 * 60, 150)] }, now);
+    const sooner = reattachReminders([notified], [news], { news: [program("Evening News", -58, -30)] }, now);
+    expect(later[0].notified).toBe(false);
+    expect(sooner[0].notified).toBe(true);
+  });
+
+  it("keeps reminders it cannot match and drops ended ones", () => {
+    const ended: ProgramReminder = {
+      ...reminder,
+      id: "ended",
+      programStart: BASE - 3 * HOUR,
+      programEnd: BASE - 2 * HOUR,
+    };
+    const result = reattachReminders(
+      [reminder, ended],
+      [news],
+      { news: [program("Another Show", 0, 30), program("Evening News", 4 * 60, 270)] },
+      now,
+    );
+    expect(result).toEqual([reminder]);
+    expect(result[0]).toBe(reminder);
+  });
+});
+
+describe("due reminders", () => {
+  const first = createReminder(news, program("First", 0, 30), "en-US");
+  const second = createReminder(news, program("Second", 60, 90), "en-US");
+
+  it("is due from the lead time until the programme ends, unless already notified", () => {
+    expect(getDueReminders([first, second], new Date(BASE - REMINDER_LEAD_MS - 1))).toEqual([]);
+    expect(getDueReminders([first, second], new Date(BASE - REMINDER_LEAD_MS))).toEqual([first]);
+    expect(getDueReminders([{ ...first, notified: true }, second], new Date(BASE))).toEqual([]);
+    expect(getDueReminders([first], new Date(BASE + 30 * MINUTE))).toEqual([]);
+  });
+
+  it("finds the next notification time among pending reminders", () => {
+    expect(getNextReminderTime([second, first], new Date(BASE - HOUR))).toBe(BASE - REMINDER_LEAD_MS);
+    expect(getNextReminderTime([{ ...first, notified: true }, second], new Date(BASE))).toBe(
+      BASE + HOUR - REMINDER_LEAD_MS,
+    );
+    expect(getNextReminderTime([first], new Date(BASE + HOUR))).toBeNull();
+  });
+});
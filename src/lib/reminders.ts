@@ -0,0 +1,127 @@
+import { Channel, EPGProgram, Locale, ProgramReminder } from "../types/player";
+import { EPGData, getEPGChannelId, getProgramTitle } from "./epg-parser";
+import { getChannelKey } from "./favorites";
+
+/** How long before the programme starts the user is notified */
+export const REMINDER_LEAD_MS = 5 * 60 * 1000;
+
+/** Furthest a programme may move in a refreshed guide and still be recognized by its title */
+const MAX_RESCHEDULE_MS = 3 * 60 * 60 * 1000;
+
+/**
+ * Check whether a programme carries a title in any language
+ */
+function hasTitle(program: EPGProgram, title: string): boolean {
+  return program.title === title || !!program.titles?.some((text) => text.value === title);
+}
+
+/**
+ * Build a reminder for an upcoming programme
+ * @param channel - Channel the programme airs on
+ * @param program - Programme to be reminded of
+ * @param locale - Language used for the stored programme title
+ */
+export function createReminder(channel: Channel, program: EPGProgram, locale: Locale): ProgramReminder {
+  const channelKey = getChannelKey(channel);
+  return {
+    id: `${channelKey}@${program.start.getTime()}`,
+    channelKey,
+    channelName: channel.name,
+    programTitle: getProgramTitle(program, locale) || undefined,
+    programStart: program.start.getTime(),
+    programEnd: program.end.getTime(),
+  };
+}
+
+/**
+ * Find the reminder set on a programme
+ */
+export function findReminder(
+  reminders: ProgramReminder[],
+  channel: Channel,
+  program: EPGProgram,
+): ProgramReminder | undefined {
+  const channelKey = getChannelKey(channel);
+  return reminders.find(
+    (reminder) => reminder.channelKey === channelKey && reminder.programStart === program.start.getTime(),
+  );
+}
+
+/**
+ * Match reminders to a refreshed guide
+ * A programme that moved keeps its reminder if it is found by title near its old start time;
+ * reminders whose programme has ended are dropped, and reminders that cannot be matched
+ * (channel or guide missing) are kept unchanged.
+ * @param reminders - Current reminders
+ * @param channels - Current lineup
+ * @param epgData - Refreshed guide
+ * @param now - Current time (default: now)
+ * @returns New reminder list; unchanged reminders keep their objects
+ */
+export function reattachReminders(
+  reminders: ProgramReminder[],
+  channels: Channel[],
+  epgData: EPGData,
+  now: Date = new Date(),
+): ProgramReminder[] {
+  return reminders
+    .filter((reminder) => reminder.programEnd > now.getTime())
+    .map((reminder) => {
+      const channel = channels.find((ch) => getChannelKey(ch) === reminder.channelKey);
+      const epgChannelId = channel && getEPGChannelId(channel, epgData);
+      const programs = epgChannelId ? epgData[epgChannelId] : undefined;
+      if (!programs || !reminder.programTitle) return reminder;
+
+      let match: EPGProgram | null = null;
+      for (const program of programs) {
+        const shift = Math.abs(program.start.getTime() - reminder.programStart);
+        if (
+          shift <= MAX_RESCHEDULE_MS &&
+          hasTitle(program, reminder.programTitle) &&
+          (!match || shift < Math.abs(match.start.getTime() - reminder.programStart))
+        ) {
+          match = program;
+        }
+      }
+
+      if (
+        !match ||
+        (match.start.getTime() === reminder.programStart && match.end.getTime() === reminder.programEnd)
+      ) {
+        return reminder;
+      }
+      return {
+        ...reminder,
+        programStart: match.start.getTime(),
+        programEnd: match.end.getTime(),
+        // Moved later: notify again before the new start
+        notified: reminder.notified && match.start.getTime() - REMINDER_LEAD_MS <= now.getTime(),
+      };
+    });
+}
+
+/**
+ * Get the reminders whose notification time has come
+ */
+export function getDueReminders(reminders: ProgramReminder[], now: Date = new Date()): ProgramReminder[] {
+  return reminders.filter(
+    (reminder) =>
+      !reminder.notified &&
+      reminder.programStart - REMINDER_LEAD_MS <= now.getTime() &&
+      reminder.programEnd > now.getTime(),
+  );
+}
+
+/**
+ * Get the next time a reminder falls due
+ * @returns Milliseconds since epoch, or null if no reminder is pending
+ */
+export function getNextReminderTime(reminders: ProgramReminder[], now: Date = new Date()): number | null {
+  let next: number | null = null;
+  for (const reminder of reminders) {
+    if (reminder.notified || reminder.programEnd <= now.getTime()) continue;
+    const time = reminder.programStart - REMINDER_LEAD_MS;
+    if (next === null || time < next) next = time;
+  }
+  return next;
+}
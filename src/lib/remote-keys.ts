@@ -0,0 +1,114 @@
+/** Action bound to a keyboard or remote-control key */
+export type RemoteAction =
+  | { type: "digit"; digit: number }
+  | { type: "channel"; direction: "prev" | "next" }
+  | { type: "seek"; direction: "backward" | "forward" }
+  | { type: "confirm" }
+  | { type: "back" }
+  | { type: "togglePlay" }
+  | { type: "toggleMute" }
+  | { type: "toggleFullscreen" }
+  | { type: "openGuide" }
+  | { type: "showInfo" };
+
+/**
+ * Legacy keyCodes sent by TV browsers for keys without a standard `key` value
+ * (Tizen, webOS and HbbTV-style remotes)
+ */
+const TV_KEY_CODES: Record<number, RemoteAction> = {
+  10009: { type: "back" }, // Tizen Return
+  461: { type: "back" }, // webOS Back
+  427: { type: "channel", direction: "next" }, // Tizen ChannelUp
+  428: { type: "channel", direction: "prev" }, // Tizen ChannelDown
+  10252: { type: "togglePlay" }, // Tizen MediaPlayPause
+  457: { type: "showInfo" }, // webOS Info
+  415: { type: "togglePlay" }, // Play
+  19: { type: "togglePlay" }, // Pause
+};
+
+/**
+ * Map a key event to a player action
+ * Arrow keys follow the on-screen channel list (Up moves to the previous entry), while
+ * dedicated ChannelUp/ChannelDown keys follow the remote convention of a higher or lower number.
+ * @returns The action, or null if the key is not bound
+ */
+export function getRemoteAction(event: Pick<KeyboardEvent, "key" | "keyCode">): RemoteAction | null {
+  const { key, keyCode } = event;
+
+  if (/^[0-9]$/.test(key)) return { type: "digit", digit: Number(key) };
+
+  switch (key) {
+    case "ArrowUp":
+    case "PageUp":
+    case "ChannelDown":
+      return { type: "channel", direction: "prev" };
+    case "ArrowDown":
+    case "PageDown":
+    case "ChannelUp":
+      return { type: "channel", direction: "next" };
+    case "ArrowLeft":
+    case "MediaRewind":
+      return { type: "seek", direction: "backward" };
+    case "ArrowRight":
+    case "MediaFastForward":
+      return { type: "seek", direction: "forward" };
+    case "Enter":
+    case "Accept":
+      return { type: "confirm" };
+    case "Backspace":
+    case "GoBack":
+    case "BrowserBack":
+      return { type: "back" };
+    case " ":
+    case "MediaPlayPause":
+    case "MediaPlay":
+    case "MediaPause":
+      return { type: "togglePlay" };
+    case "m":
+    case "M":
+    case "AudioVolumeMute":
+      return { type: "toggleMute" };
+    case "f":
+    case "F":
+      return { type: "toggleFullscreen" };
+    case "g":
+    case "G":
+    case "Guide":
+      return { type: "openGuide" };
+    case "i":
+    case "I":
+    case "Info":
+      return { type: "showInfo" };
+  }
+
+  // Numeric keypads on some remotes only report keyCode
+  if (keyCode >= 96 && keyCode <= 105) return { type: "digit", digit: keyCode - 96 };
+  return TV_KEY_CODES[keyCode] ?? null;
+}
+
+/** Keys that scroll the focused list rather than change channel */
+const LIST_SCROLL_KEYS = ["ArrowUp", "ArrowDown", "PageUp", "PageDown"];
+
+/**
+ * Check whether an element or one of its ancestors scrolls vertically
+ */
+function isInScrollableList(element: HTMLElement): boolean {
+  for (let current: HTMLElement | null = element; current && current !== document.body; current = current.parentElement) {
+    const { overflowY } = getComputedStyle(current);
+    if ((overflowY === "auto" || overflowY === "scroll") && current.scrollHeight > current.clientHeight) return true;
+  }
+  return false;
+}
+
+/**
+ * Check whether a key event is aimed at a control that handles keys itself
+ * Text fields keep every key; buttons and links keep the keys that activate them;
+ * focus inside a scrollable list, such as the channel list or guide, keeps the scroll keys.
+ */
+export function isKeyForFocusedControl(event: Pick<KeyboardEvent, "key" | "target">): boolean {
+  const target = event.target as HTMLElement | null;
+  if (!target || !target.tagName) return false;
+  if (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return true;
+  if (LIST_SCROLL_KEYS.includes(event.key) && isInScrollableList(target)) return true;
+  return (event.key === " " || event.key === "Enter") && ["BUTTON", "A", "SUMMARY"].includes(target.tagName);
+}
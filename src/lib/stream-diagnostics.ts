@@ -0,0 +1,122 @@
+/**
+ * Stream health metrics read from the <video> element
+ * The pinned mpegts.js fork reports neither download speed nor codecs, so those are not collected.
+ */
+
+/** Number of one-second samples kept for the chart */
+export const DIAGNOSTICS_SAMPLE_LIMIT = 60;
+
+/** One point of the diagnostics time series */
+export interface DiagnosticsSample {
+  /** Milliseconds since epoch */
+  time: number;
+  /** Media buffered ahead of the playhead, in seconds */
+  bufferSeconds: number;
+  droppedFrames: number;
+  decodedFrames: number;
+  /** Live only: distance from the playhead to the newest buffered media, in seconds */
+  latencySeconds: number | null;
+}
+
+export interface StreamDiagnostics {
+  channelName: string;
+  url: string;
+  isLive: boolean;
+  /** Decoded picture size; 0 before the first frame */
+  width: number;
+  height: number;
+  /** Times the stream was reloaded or switched to another source since the channel was tuned */
+  reconnects: number;
+  samples: DiagnosticsSample[];
+}
+
+/**
+ * Get the seconds of media buffered ahead of the playhead
+ */
+export function getBufferAhead(video: HTMLVideoElement): number {
+  const { buffered, currentTime } = video;
+  for (let i = 0; i < buffered.length; i++) {
+    if (buffered.start(i) <= currentTime + 0.1 && buffered.end(i) >= currentTime) {
+      return buffered.end(i) - currentTime;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Get the distance from the playhead to the newest buffered media
+ * For a live stream this is the latency added by the player on top of the network.
+ */
+export function getLiveLatency(video: HTMLVideoElement): number | null {
+  const { buffered } = video;
+  if (buffered.length === 0) return null;
+  return Math.max(0, buffered.end(buffered.length - 1) - video.currentTime);
+}
+
+/**
+ * Get the decoded and dropped frame counts of a video element
+ */
+export function getFrameCounts(video: HTMLVideoElement): { decodedFrames: number; droppedFrames: number } {
+  if (typeof video.getVideoPlaybackQuality === "function") {
+    const quality = video.getVideoPlaybackQuality();
+    return { decodedFrames: quality.totalVideoFrames, droppedFrames: quality.droppedVideoFrames };
+  }
+  return { decodedFrames: 0, droppedFrames: 0 };
+}
+
+/**
+ * Get the rendered frame rate from the decoded-frame delta of the two latest samples
+ * @returns Frames per second, or null with fewer than two samples
+ */
+export function getSampledFrameRate(samples: DiagnosticsSample[]): number | null {
+  if (samples.length < 2) return null;
+  const previous = samples[samples.length - 2];
+  const last = samples[samples.length - 1];
+  const seconds = (last.time - previous.time) / 1000;
+  // Frame counters restart when the player is recreated
+  if (seconds <= 0 || last.decodedFrames < previous.decodedFrames) return null;
+  return (last.decodedFrames - previous.decodedFrames) / seconds;
+}
+
+/**
+ * Append a sample, keeping the most recent DIAGNOSTICS_SAMPLE_LIMIT
+ * @returns New sample list; the input is not modified
+ */
+export function appendSample(samples: DiagnosticsSample[], sample: DiagnosticsSample): DiagnosticsSample[] {
+  return [...samples, sample].slice(-DIAGNOSTICS_SAMPLE_LIMIT);
+}
+
+/**
+ * Build a plain-text report to paste into a bug report or chat
+ */
+export function formatDiagnosticsReport(diagnostics: StreamDiagnostics): string {
+  const { samples } = diagnostics;
+  const last = samples[samples.length - 1];
+  const fps = getSampledFrameRate(samples);
+  const average = (pick: (sample: DiagnosticsSample) => number) =>
+    samples.length > 0 ? samples.reduce((sum, sample) => sum + pick(sample), 0) / samples.length : 0;
+
+  const lines = [
+    `Channel: ${diagnostics.channelName}`,
+    `URL: ${diagnostics.url}`,
+    `Mode: ${diagnostics.isLive ? "live" : "catchup"}`,
+    `Resolution: ${diagnostics.width && diagnostics.height ? `${diagnostics.width}x${diagnostics.height}` : "unknown"}`,
+    `Frame rate: ${fps !== null ? `${fps.toFixed(2)} fps` : "unknown"}`,
+    "Download speed: unavailable",
+    "Codec: unavailable",
+    `Reconnects: ${diagnostics.reconnects}`,
+  ];
+
+  if (last) {
+    lines.push(
+      `Buffer: ${last.bufferSeconds.toFixed(2)} s (avg ${average((sample) => sample.bufferSeconds).toFixed(2)} s over ${samples.length}s)`,
+      `Frames: ${last.decodedFrames} decoded, ${last.droppedFrames} dropped`,
+    );
+    if (last.latencySeconds !== null) {
+      lines.push(`Live latency: ${last.latencySeconds.toFixed(2)} s`);
+    }
+  }
+
+  lines.push(`User agent: ${navigator.userAgent}`, `Time: ${new Date().toISOString()}`);
+  return lines.join("\n");
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { classifyStreamError, getRecoveryAction, INITIAL_RECOVERY_STATE, RecoveryState } from "./stream-recovery";
+
+type PlayerError = Parameters<typeof classifyStreamError>[0];
+
+describe("classifyStreamError", () => {
+  it("maps loader, unsupported stream and other failures to what the user is told", () => {
+    expect(classifyStreamError({ category: "io", detail: "HttpStatusCodeInvalid" } as PlayerError)).toBe("network");
+    expect(classifyStreamError({ category: "demux", detail: "CodecUnsupported" } as PlayerError)).toBe("codec");
+    expect(classifyStreamError({ category: "demux", detail: "FormatUnsupported" } as PlayerError)).toBe("codec");
+    expect(classifyStreamError({ category: "demux", detail: "FormatError" } as PlayerError)).toBe("media");
+    expect(classifyStreamError({ category: "media", detail: "MediaMSEError" } as PlayerError)).toBe("media");
+  });
+});
+
+describe("getRecoveryAction", () => {
+  it("retries network errors with doubling, capped delays", () => {
+    let state: RecoveryState = INITIAL_RECOVERY_STATE;
+    const delays: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      const result = getRecoveryAction(state, "network", 0, 1, { maxDelayMs: 5000 });
+      if (result.action.type === "retry") delays.push(result.action.delayMs);
+      state = result.state;
+    }
+    expect(delays).toEqual([1000, 2000, 4000, 5000]);
+    expect(getRecoveryAction(state, "network", 0, 1).action).toEqual({ type: "fail", kind: "network" });
+  });
+
+  it("reloads the media element once per source", () => {
+    const first = getRecoveryAction(INITIAL_RECOVERY_STATE, "media", 0, 1);
+    expect(first.action).toEqual({ type: "reloadMedia" });
+    expect(getRecoveryAction(first.state, "media", 0, 1).action).toEqual({ type: "fail", kind: "media" });
+  });
+
+  it("switches to the next source with fresh attempts once the current one is used up", () => {
+    const exhausted: RecoveryState = { networkRetries: 4, mediaReloads: 1 };
+    expect(getRecoveryAction(exhausted, "network", 0, 3)).toEqual({
+      action: { type: "switchSource", sourceIndex: 1 },
+      state: INITIAL_RECOVERY_STATE,
+    });
+    expect(getRecoveryAction(INITIAL_RECOVERY_STATE, "codec", 1, 3).action).toEqual({
+      type: "switchSource",
+      sourceIndex: 2,
+    });
+    expect(getRecoveryAction(INITIAL_RECOVERY_STATE, "codec", 2, 3).action).toEqual({ type: "fail", kind: "codec" });
+  });
+});
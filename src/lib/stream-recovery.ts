@@ -0,0 +1,90 @@
+import type { PlayerError } from "@rtp2httpd/mpegts.js";
+
+/**
+ * Recovery policy for playback errors: retry, reload the media element, switch source, or give up
+ */
+
+/** Error categories shown to the user, matching the networkError / mediaError / codecError messages */
+export type StreamErrorKind = "network" | "media" | "codec";
+
+export type RecoveryAction =
+  /** Reload the same source after a delay */
+  | { type: "retry"; delayMs: number }
+  /** Reset the video element and reload the same source */
+  | { type: "reloadMedia" }
+  /** Play the channel's next source */
+  | { type: "switchSource"; sourceIndex: number }
+  /** Stop and show the error */
+  | { type: "fail"; kind: StreamErrorKind };
+
+/** Recovery attempts made on the current source */
+export interface RecoveryState {
+  networkRetries: number;
+  mediaReloads: number;
+}
+
+export interface RecoveryOptions {
+  /** Network retries per source (default 4) */
+  maxNetworkRetries?: number;
+  /** Media element reloads per source (default 1) */
+  maxMediaReloads?: number;
+  /** Delay before the first network retry, doubled for each further retry (default 1s) */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay (default 16s) */
+  maxDelayMs?: number;
+}
+
+export const INITIAL_RECOVERY_STATE: RecoveryState = { networkRetries: 0, mediaReloads: 0 };
+
+/**
+ * Map a player error to what the user is told
+ * Loader failures are network errors; streams the demuxer cannot handle are codec errors;
+ * anything else, such as an MSE failure, is a media error.
+ */
+export function classifyStreamError(error: PlayerError): StreamErrorKind {
+  if (error.category === "io") return "network";
+  if (error.category === "demux" && (error.detail === "CodecUnsupported" || error.detail === "FormatUnsupported")) {
+    return "codec";
+  }
+  return "media";
+}
+
+/**
+ * Decide how to recover from a playback error
+ * Network errors are retried with exponential backoff and media errors reload the media element;
+ * once those attempts are used up, or for unsupported codecs, the next source is tried.
+ * @param state - Attempts made on the current source
+ * @param kind - Category of the error
+ * @param sourceIndex - Index of the source that failed
+ * @param sourceCount - Number of sources of the channel
+ * @returns The action to take and the attempts after taking it
+ */
+export function getRecoveryAction(
+  state: RecoveryState,
+  kind: StreamErrorKind,
+  sourceIndex: number,
+  sourceCount: number,
+  options: RecoveryOptions = {},
+): { action: RecoveryAction; state: RecoveryState } {
+  const { maxNetworkRetries = 4, maxMediaReloads = 1, baseDelayMs = 1000, maxDelayMs = 16 * 1000 } = options;
+
+  if (kind === "network" && state.networkRetries < maxNetworkRetries) {
+    return {
+      action: { type: "retry", delayMs: Math.min(maxDelayMs, baseDelayMs * 2 ** state.networkRetries) },
+      state: { ...state, networkRetries: state.networkRetries + 1 },
+    };
+  }
+
+  if (kind === "media" && state.mediaReloads < maxMediaReloads) {
+    return {
+      action: { type: "reloadMedia" },
+      state: { ...state, mediaReloads: state.mediaReloads + 1 },
+    };
+  }
+
+  if (sourceIndex + 1 < sourceCount) {
+    return { action: { type: "switchSource", sourceIndex: sourceIndex + 1 }, state: INITIAL_RECOVERY_STATE };
+  }
+
+  return { action: { type: "fail", kind }, state };
+}
@@ -0,0 +1,310 @@
+import { captureTS, isAbortError } from "./ts-capture";
+
+/**
+ * Default rolling window in minutes; 0 turns timeshift off
+ * Off by default: the buffer opens a second connection to the stream and writes it to storage.
+ */
+export const DEFAULT_TIMESHIFT_WINDOW_MINUTES = 0;
+
+/** Longest rolling window the setting accepts, in minutes */
+export const MAX_TIMESHIFT_WINDOW_MINUTES = 240;
+
+/** Wall-clock length of one stored segment; playback positions snap to segment starts */
+const SEGMENT_DURATION_MS = 10 * 1000;
+
+/** Largest buffer held in memory when OPFS is unavailable */
+const MEMORY_TIMESHIFT_MAX_BYTES = 512 * 1024 * 1024;
+
+/** OPFS directory holding one subdirectory per running buffer */
+const TIMESHIFT_DIRECTORY = "timeshift";
+
+/** Share of the free storage quota the buffer may fill, leaving room for recordings */
+const QUOTA_SHARE = 0.5;
+
+/** Buffers from sessions that ended without cleaning up are removed after this age */
+const STALE_BUFFER_AGE_MS = 24 * 60 * 60 * 1000;
+
+const RECONNECT_DELAY_MS = 5 * 1000;
+
+const TS_PACKET_SIZE = 188;
+
+export interface TimeshiftWindow {
+  /** Wall-clock time of the oldest buffered data, in ms */
+  start: number;
+  /** Wall-clock time of the newest buffered data, in ms */
+  end: number;
+}
+
+export interface TimeshiftSlice {
+  blob: Blob;
+  /** Wall-clock end of the slice, where the next slice starts */
+  end: number;
+  /** Let the buffer delete the slice's stored segments once they leave the window */
+  release: () => void;
+}
+
+export interface TimeshiftOptions {
+  /** Live stream URL */
+  url: string;
+  /** Length of the rolling window in ms */
+  windowMs: number;
+}
+
+export interface TimeshiftBuffer {
+  /** Span of buffered data, or null before anything was received */
+  getWindow: () => TimeshiftWindow | null;
+  /**
+   * Start of the stored segment containing a time; times before the window map to its first segment
+   * @returns null when the time is newer than the stored segments, i.e. still live
+   */
+  findSegmentStart: (time: number) => number | null;
+  /** Stored segments from the one starting at `start`, and the time the last of them ends */
+  slice: (start: number) => TimeshiftSlice | null;
+  /** Stop capturing and delete the buffered data */
+  stop: () => void;
+}
+
+interface TimeshiftSegment {
+  id: number;
+  start: number;
+  end: number;
+  bytes: number;
+  /** In memory until the store has persisted it */
+  blob: Blob;
+  /** Settles once the store write has finished or failed */
+  persisted: Promise<void>;
+  /** Slices still reading the segment */
+  pins: number;
+  /** Dropped from the window; its stored copy is removed when no slice reads it */
+  evicted: boolean;
+}
+
+interface SegmentStore {
+  /** Size limit of the storage behind the store */
+  maxBytes: number;
+  /** Move a finished segment to storage, returning the stored copy */
+  persist: (id: number, blob: Blob) => Promise<Blob>;
+  remove: (id: number) => Promise<void>;
+  /** Delete everything the store holds */
+  clear: () => Promise<void>;
+}
+
+/**
+ * Store segments in the origin private file system, so long windows stay out of memory
+ */
+async function createOPFSStore(): Promise<SegmentStore> {
+  const root = await navigator.storage.getDirectory();
+  const parent = await root.getDirectoryHandle(TIMESHIFT_DIRECTORY, { create: true });
+
+  // Directories are named after their creation time; old ones belong to closed tabs
+  // (keys() is not in the DOM typings this project builds against)
+  const names = (parent as FileSystemDirectoryHandle & { keys: () => AsyncIterable<string> }).keys();
+  for await (const name of names) {
+    if (Date.now() - parseInt(name, 10) > STALE_BUFFER_AGE_MS) {
+      await parent.removeEntry(name, { recursive: true }).catch(() => undefined);
+    }
+  }
+
+  const name = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const directory = await parent.getDirectoryHandle(name, { create: true });
+  const { quota, usage } = await navigator.storage.estimate();
+
+  return {
+    maxBytes: quota !== undefined && usage !== undefined ? (quota - usage) * QUOTA_SHARE : MEMORY_TIMESHIFT_MAX_BYTES,
+    persist: async (id, blob) => {
+      const handle = await directory.getFileHandle(`${id}.ts`, { create: true });
+      const writable = await handle.createWritable();
+      await writable.write(blob);
+      await writable.close();
+      return handle.getFile();
+    },
+    remove: (id) => directory.removeEntry(`${id}.ts`),
+    clear: () => parent.removeEntry(name, { recursive: true }),
+  };
+}
+
+function createMemoryStore(): SegmentStore {
+  return {
+    maxBytes: MEMORY_TIMESHIFT_MAX_BYTES,
+    persist: async (_id, blob) => blob,
+    remove: async () => undefined,
+    clear: async () => undefined,
+  };
+}
+
+/**
+ * Wait for a delay unless aborted
+ */
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+}
+
+/**
+ * Start keeping a rolling window of a live stream's MPEG-TS bytes
+ * The stream is read over its own connection and cut into segments on TS packet boundaries.
+ * Segments go to OPFS when available, otherwise stay in memory with a lower size limit;
+ * the oldest are dropped once the window or the size limit is exceeded.
+ * The connection is reopened after network errors, leaving a gap in the buffer.
+ */
+export function startTimeshiftBuffer({ url, windowMs }: TimeshiftOptions): TimeshiftBuffer {
+  const controller = new AbortController();
+  const segments: TimeshiftSegment[] = [];
+  let storedBytes = 0;
+  let nextId = 0;
+
+  // Segment being received
+  let pending: Uint8Array[] = [];
+  let pendingBytes = 0;
+  let pendingStart = 0;
+  let lastReceived = 0;
+
+  let store: SegmentStore = createMemoryStore();
+
+  // Store writes in flight, awaited before the store is cleared
+  const writes = new Set<Promise<void>>();
+
+  // Remove a segment's stored copy after its write has settled, so no file is left behind
+  const removeStored = (segment: TimeshiftSegment) => {
+    segment.persisted
+      .then(() => store.remove(segment.id))
+      .catch((error) => console.error("Failed to remove timeshift segment:", error));
+  };
+
+  const evict = () => {
+    const newest = segments[segments.length - 1];
+    // Drop the oldest segment while the rest still cover the window
+    while (segments.length > 1 && (newest.end - segments[1].start >= windowMs || storedBytes > store.maxBytes)) {
+      const oldest = segments.shift()!;
+      storedBytes -= oldest.bytes;
+      oldest.evicted = true;
+      if (oldest.pins === 0) removeStored(oldest);
+    }
+  };
+
+  // Close the pending segment; bytes after the last whole packet start the next one
+  const flush = (carryOver: boolean) => {
+    if (pendingBytes === 0) return;
+    const data = new Uint8Array(pendingBytes);
+    let offset = 0;
+    for (const chunk of pending) {
+      data.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    const whole = pendingBytes - (pendingBytes % TS_PACKET_SIZE);
+    const carry = carryOver ? data.slice(whole) : new Uint8Array(0);
+
+    if (whole > 0) {
+      const blob = new Blob([data.subarray(0, whole)], { type: "video/mp2t" });
+      const segment: TimeshiftSegment = {
+        id: nextId++,
+        start: pendingStart,
+        end: lastReceived,
+        bytes: whole,
+        blob,
+        persisted: Promise.resolve(),
+        pins: 0,
+        evicted: false,
+      };
+      // Slices keep reading the in-memory blob until the stored copy is complete
+      segment.persisted = store
+        .persist(segment.id, blob)
+        .then((stored) => {
+          segment.blob = stored;
+        })
+        .catch((error) => console.error("Failed to store timeshift segment:", error))
+        .finally(() => writes.delete(segment.persisted));
+      writes.add(segment.persisted);
+      segments.push(segment);
+      storedBytes += whole;
+      evict();
+    }
+
+    pending = carry.byteLength > 0 ? [carry] : [];
+    pendingBytes = carry.byteLength;
+    pendingStart = lastReceived;
+  };
+
+  const handleChunk = (chunk: Uint8Array) => {
+    const now = Date.now();
+    if (pendingBytes === 0) pendingStart = now;
+    pending.push(chunk);
+    pendingBytes += chunk.byteLength;
+    lastReceived = now;
+    if (now - pendingStart >= SEGMENT_DURATION_MS) flush(true);
+  };
+
+  (async () => {
+    try {
+      store = await createOPFSStore();
+    } catch (error) {
+      console.warn("OPFS unavailable, keeping timeshift buffer in memory:", error);
+    }
+
+    while (!controller.signal.aborted) {
+      try {
+        await captureTS([url], { signal: controller.signal, onChunk: handleChunk });
+      } catch (error) {
+        if (isAbortError(error)) break;
+        console.warn("Timeshift capture failed, reconnecting:", error);
+      }
+      // A new connection starts a new packet sequence
+      flush(false);
+      await wait(RECONNECT_DELAY_MS, controller.signal);
+    }
+
+    await Promise.all(writes);
+    await store.clear().catch((error) => console.error("Failed to clear timeshift buffer:", error));
+  })();
+
+  return {
+    getWindow: () => {
+      const start = segments[0]?.start ?? (pendingBytes > 0 ? pendingStart : null);
+      return start === null ? null : { start, end: lastReceived };
+    },
+
+    findSegmentStart: (time) => {
+      if (segments.length === 0 || time >= segments[segments.length - 1].end) return null;
+      let found = segments[0].start;
+      for (const segment of segments) {
+        if (segment.start > time) break;
+        found = segment.start;
+      }
+      return found;
+    },
+
+    slice: (start) => {
+      const parts = segments.filter((segment) => segment.start >= start);
+      if (parts.length === 0) return null;
+      // Stored copies must stay readable while the slice is played, even after eviction
+      parts.forEach((segment) => segment.pins++);
+      let released = false;
+      return {
+        blob: new Blob(
+          parts.map((segment) => segment.blob),
+          { type: "video/mp2t" },
+        ),
+        end: parts[parts.length - 1].end,
+        release: () => {
+          if (released) return;
+          released = true;
+          for (const segment of parts) {
+            segment.pins--;
+            if (segment.evicted && segment.pins === 0) removeStored(segment);
+          }
+        },
+      };
+    },
+
+    stop: () => controller.abort(),
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Raw MPEG-TS capture over a separate connection, independent of the player
+ * Used by recording and timeshift, which need the bytes mpegts.js does not expose.
+ */
+
+export interface TSCaptureOptions {
+  /** Abort to stop capturing; the returned promise then rejects with an AbortError */
+  signal: AbortSignal;
+  /** Called for every chunk received, in order; capture waits for returned promises */
+  onChunk: (chunk: Uint8Array) => void | Promise<void>;
+}
+
+/**
+ * Read the MPEG-TS bytes of a stream
+ * A live stream is a single never-ending URL; catchup is a sequence of segment URLs read back to back.
+ * @param urls - Stream URL, or catchup segment URLs in playback order
+ * @returns Resolves when the last URL ends
+ * @throws Error if a URL cannot be fetched
+ */
+export async function captureTS(urls: string[], { signal, onChunk }: TSCaptureOptions): Promise<void> {
+  for (const url of urls) {
+    const response = await fetch(url, { signal });
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to capture ${url}: HTTP ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        await onChunk(value);
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+}
+
+/**
+ * Check whether an error is the result of aborting a capture
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
@@ -0,0 +1,72 @@
+import { Channel, EPGProgram, Locale, PlayMode, WatchHistoryEntry } from "../types/player";
+import { getProgramTitle } from "./epg-parser";
+import { getChannelKey } from "./favorites";
+
+/** Maximum number of entries kept */
+export const WATCH_HISTORY_LIMIT = 50;
+
+/** Catchup positions this close to the programme end count as finished */
+const FINISHED_THRESHOLD_MS = 2 * 60 * 1000;
+
+/**
+ * Check whether two entries describe the same viewing: the same channel live,
+ * or the same catchup programme (or catchup session without a programme)
+ */
+function isSameViewing(a: WatchHistoryEntry, b: WatchHistoryEntry): boolean {
+  return a.channelKey === b.channelKey && a.mode === b.mode && (a.mode === "live" || a.programStart === b.programStart);
+}
+
+/**
+ * Build a history entry for what is playing
+ * @param channel - Channel being watched
+ * @param mode - Live or catchup
+ * @param program - Programme at the playback position, if known
+ * @param position - Absolute playback time
+ * @param locale - Language used for the stored programme title
+ */
+export function createWatchHistoryEntry(
+  channel: Channel,
+  mode: PlayMode,
+  program: EPGProgram | null,
+  position: Date,
+  locale: Locale,
+): WatchHistoryEntry {
+  return {
+    channelKey: getChannelKey(channel),
+    channelName: channel.name,
+    channelLogo: channel.logo,
+    mode,
+    programTitle: (program && getProgramTitle(program, locale)) || undefined,
+    programStart: program?.start.getTime(),
+    programEnd: program?.end.getTime(),
+    position: mode === "catchup" ? position.getTime() : undefined,
+    watchedAt: Date.now(),
+  };
+}
+
+/**
+ * Add or update an entry, keeping the history most-recent-first and capped
+ * @returns New history; the input is not modified
+ */
+export function addWatchHistoryEntry(
+  history: WatchHistoryEntry[],
+  entry: WatchHistoryEntry,
+  limit = WATCH_HISTORY_LIMIT,
+): WatchHistoryEntry[] {
+  return [entry, ...history.filter((other) => !isSameViewing(other, entry))].slice(0, limit);
+}
+
+/**
+ * Check whether a catchup entry can be resumed (it has a position and was not watched to the end)
+ */
+export function canResume(entry: WatchHistoryEntry): boolean {
+  if (entry.mode !== "catchup" || entry.position === undefined) return false;
+  return entry.programEnd === undefined || entry.position < entry.programEnd - FINISHED_THRESHOLD_MS;
+}
+
+/**
+ * Find the channel of a history entry in the current lineup
+ */
+export function findHistoryChannel(channels: Channel[], entry: WatchHistoryEntry): Channel | undefined {
+  return channels.find((channel) => getChannelKey(channel) === entry.channelKey);
+}
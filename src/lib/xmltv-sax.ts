@@ -0,0 +1,196 @@
+import type { XMLTVElement } from "./epg-parser";
+
+/**
+ * Incremental XMLTV reader
+ * Accepts the document in arbitrary chunks and emits complete element trees
+ * for the top-level elements of interest (<channel> and <programme> by default),
+ * so a large guide never has to be held as a DOM.
+ */
+export interface XMLTVStreamParser {
+  /** Feed the next chunk of decoded text */
+  write(chunk: string): void;
+  /** Flush the parser after the last chunk */
+  end(): void;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+const ATTRIBUTE_PATTERN = /([^\s=/]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>/]+))/g;
+
+/**
+ * Decode XML character and entity references
+ */
+function decodeEntities(text: string): string {
+  if (text.indexOf("&") === -1) return text;
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const codePoint = entity[1] === "x" || entity[1] === "X" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1));
+      try {
+        return String.fromCodePoint(codePoint);
+      } catch {
+        return match;
+      }
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * Find the ">" closing a start/end tag, skipping quoted attribute values
+ * @returns Index of ">" or -1 if the tag is not complete yet
+ */
+function findTagEnd(buffer: string, from: number): number {
+  let quote: string | null = null;
+  for (let i = from; i < buffer.length; i++) {
+    const char = buffer[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ">") {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Create a streaming XMLTV parser
+ * @param onElement - Called with each complete element whose name is in elementNames
+ * @param elementNames - Names of the elements to capture (nested occurrences are kept as children)
+ */
+export function createXMLTVStreamParser(
+  onElement: (element: XMLTVElement) => void,
+  elementNames: readonly string[] = ["channel", "programme"],
+): XMLTVStreamParser {
+  const captured = new Set(elementNames);
+  const stack: XMLTVElement[] = [];
+  let buffer = "";
+
+  const appendText = (text: string) => {
+    if (stack.length > 0 && text) {
+      stack[stack.length - 1].text += decodeEntities(text);
+    }
+  };
+
+  const openElement = (name: string, rawAttributes: string, selfClosing: boolean) => {
+    if (stack.length === 0 && !captured.has(name)) return;
+
+    const attributes: Record<string, string> = {};
+    ATTRIBUTE_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = ATTRIBUTE_PATTERN.exec(rawAttributes))) {
+      attributes[match[1]] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+    }
+
+    const element: XMLTVElement = { name, attributes, text: "", children: [] };
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(element);
+    }
+    stack.push(element);
+    if (selfClosing) closeElement(name);
+  };
+
+  const closeElement = (name: string) => {
+    if (stack.length === 0) return;
+    // Tolerate mismatched tags by unwinding to the matching element
+    let index = stack.length - 1;
+    while (index > 0 && stack[index].name !== name) index--;
+    if (stack[index].name !== name) return;
+
+    const element = stack[index];
+    stack.length = index;
+    if (index === 0) {
+      onElement(element);
+    }
+  };
+
+  /**
+   * Consume as much of the buffer as forms complete markup
+   * @returns Index of the first unconsumed character
+   */
+  const process = (final: boolean): number => {
+    let position = 0;
+
+    while (position < buffer.length) {
+      const tagStart = buffer.indexOf("<", position);
+      if (tagStart === -1) {
+        // Text may continue in the next chunk unless this is the end
+        if (final) {
+          appendText(buffer.slice(position));
+          return buffer.length;
+        }
+        return position;
+      }
+
+      if (tagStart > position) {
+        appendText(buffer.slice(position, tagStart));
+        position = tagStart;
+      }
+
+      if (buffer.startsWith("<!--", position)) {
+        const end = buffer.indexOf("-->", position + 4);
+        if (end === -1) return position;
+        position = end + 3;
+      } else if (buffer.startsWith("<![CDATA[", position)) {
+        const end = buffer.indexOf("]]>", position + 9);
+        if (end === -1) return position;
+        if (stack.length > 0) {
+          stack[stack.length - 1].text += buffer.slice(position + 9, end);
+        }
+        position = end + 3;
+      } else if (buffer.startsWith("<?", position)) {
+        const end = buffer.indexOf("?>", position + 2);
+        if (end === -1) return position;
+        position = end + 2;
+      } else if (buffer.startsWith("<!", position)) {
+        // DOCTYPE, possibly with an internal subset in brackets
+        const bracket = buffer.indexOf("[", position);
+        const close = buffer.indexOf(">", position);
+        if (close === -1) return position;
+        if (bracket !== -1 && bracket < close) {
+          const subsetEnd = buffer.indexOf("]>", bracket);
+          if (subsetEnd === -1) return position;
+          position = subsetEnd + 2;
+        } else {
+          position = close + 1;
+        }
+      } else {
+        const end = findTagEnd(buffer, position + 1);
+        if (end === -1) return position;
+
+        const tag = buffer.slice(position + 1, end);
+        if (tag[0] === "/") {
+          closeElement(tag.slice(1).trim());
+        } else {
+          const selfClosing = tag.endsWith("/");
+          const body = selfClosing ? tag.slice(0, -1) : tag;
+          const nameEnd = body.search(/[\s/]/);
+          const name = nameEnd === -1 ? body : body.slice(0, nameEnd);
+          openElement(name, nameEnd === -1 ? "" : body.slice(nameEnd), selfClosing);
+        }
+        position = end + 1;
+      }
+    }
+
+    return position;
+  };
+
+  return {
+    write(chunk: string) {
+      buffer += chunk;
+      buffer = buffer.slice(process(false));
+    },
+    end() {
+      process(true);
+      buffer = "";
+      stack.length = 0;
+    },
+  };
+}
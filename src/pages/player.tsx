@@ -1,20 +1,65 @@
-import { StrictMode, useEffect, useState, useCallback, useMemo, useRef, Activity } from "react";
+import { StrictMode, useEffect, useState, useCallback, useMemo, useRef, Activity, type DragEvent } from "react";
 import { createRoot } from "react-dom/client";
 import mpegts from "@rtp2httpd/mpegts.js";
-import { Channel, M3UMetadata, PlayMode } from "../types/player";
-import { parseM3U, buildCatchupSegments } from "../lib/m3u-parser";
-import { loadEPG, getCurrentProgram, getEPGChannelId, EPGData, fillEPGGaps } from "../lib/epg-parser";
+import {
+  Channel,
+  EPGProgram,
+  MultiViewLayout,
+  PlaylistSource,
+  PlayMode,
+  ProgramReminder,
+  WatchHistoryEntry,
+} from "../types/player";
+import { getChannelWithSource } from "../lib/m3u-parser";
+import {
+  DEFAULT_PLAYLIST_SOURCE_ID,
+  DEFAULT_PLAYLIST_URL,
+  importLocalFiles,
+  loadPlaylistSources,
+  MergedPlaylist,
+  pruneUnusedLocalFiles,
+} from "../lib/playlist-sources";
+import { isGuideFile, isPlaylistFile } from "../lib/local-files";
+import { buildCatchupSegments, clampToCatchupWindow, supportsCatchup } from "../lib/catchup";
+import { getCurrentProgram, getEPGChannelId, getProgramTitle, EPGData, fillEPGGaps } from "../lib/epg-parser";
+import { loadEPGSources, EPGLoadProgress } from "../lib/epg-loader";
+import { RetryOptions } from "../lib/conditional-fetch";
+import { diffChannels, hasChannelChanges } from "../lib/channel-diff";
+import { createWatchHistoryEntry } from "../lib/watch-history";
+import { downloadRecording, RecordingResult } from "../lib/recorder";
+import { getChannelKey } from "../lib/favorites";
+import { findChannelByNumber, getChannelNumber } from "../lib/channel-search";
+import {
+  getEPGCache,
+  getPlaylistCache,
+  getPlaylistSourcesKey,
+  saveEPGCache,
+  savePlaylistCache,
+} from "../lib/offline-cache";
 import {
   ChannelList,
   nextScrollBehaviorRef as channelListNextScrollBehaviorRef,
 } from "../components/player/channel-list";
 import { EPGView, nextScrollBehaviorRef as epgViewNextScrollBehaviorRef } from "../components/player/epg-view";
+import { EPGGrid } from "../components/player/EPGGrid";
 import { VideoPlayer } from "../components/player/video-player";
 import { SettingsDropdown } from "../components/player/settings-dropdown";
+import PlaylistSourceManager from "../components/player/PlaylistSourceManager";
+import WatchHistory from "../components/player/WatchHistory";
+import ChannelNumberOverlay from "../components/player/ChannelNumberOverlay";
+import ProgramInfoBanner from "../components/player/ProgramInfoBanner";
+import ReminderNotifications from "../components/player/ReminderNotifications";
+import RecordingControls from "../components/player/RecordingControls";
+import MultiView from "../components/player/MultiView";
 import { Card } from "../components/ui/card";
 import { usePlayerTranslation } from "../hooks/use-player-translation";
+import { translate } from "../i18n/player";
 import { useLocale } from "../hooks/use-locale";
 import { useTheme } from "../hooks/use-theme";
+import { useWatchHistory } from "../hooks/use-watch-history";
+import { useRemoteControl } from "../hooks/use-remote-control";
+import { useReminders } from "../hooks/use-reminders";
+import { useRecorder } from "../hooks/use-recorder";
 import {
   saveLastChannelId,
   getLastChannelId,
@@ -24,61 +69,57 @@ import {
   getCatchupTailOffset,
   saveForce16x9,
   getForce16x9,
+  saveLiveTargetLatency,
+  getLiveTargetLatency,
+  saveTimeshiftWindow,
+  getTimeshiftWindow,
+  savePlaylistSources,
+  getPlaylistSources,
+  getRefreshNotifications,
 } from "../lib/player-storage";
 import { cn } from "../lib/utils";
-import { Edit, ExternalLink, RefreshCw, X } from "lucide-react";
-
-// 新增：自定义M3U URL的本地存储工具函数
-const STORAGE_KEY_CUSTOM_M3U_URL = "rtp2httpd-player-custom-m3u-url";
-
-function saveCustomM3uUrl(url: string): void {
-  try {
-    localStorage.setItem(STORAGE_KEY_CUSTOM_M3U_URL, url);
-  } catch (error) {
-    console.error("Failed to save custom M3U URL:", error);
-  }
-}
-
-function getCustomM3uUrl(): string | null {
-  try {
-    return localStorage.getItem(STORAGE_KEY_CUSTOM_M3U_URL);
-  } catch (error) {
-    console.error("Failed to get custom M3U URL:", error);
-    return null;
-  }
-}
-
-function clearCustomM3uUrl(): void {
-  try {
-    localStorage.removeItem(STORAGE_KEY_CUSTOM_M3U_URL);
-  } catch (error) {
-    console.error("Failed to clear custom M3U URL:", error);
-  }
-}
+import { ExternalLink, Grid2x2, LayoutGrid, ListVideo, WifiOff, X } from "lucide-react";
 
 function PlayerPage() {
   const { locale, setLocale } = useLocale("player-locale");
   const { theme, setTheme } = useTheme("player-theme");
   const t = usePlayerTranslation(locale);
 
-  const [metadata, setMetadata] = useState<M3UMetadata | null>(null);
+  const [metadata, setMetadata] = useState<MergedPlaylist | null>(null);
   const [epgData, setEpgData] = useState<EPGData>({});
+  const [epgProgress, setEpgProgress] = useState<EPGLoadProgress | null>(null);
   const [currentChannel, setCurrentChannel] = useState<Channel | null>(null);
+  // Index into currentChannel.sources; advances when a source fails to play
+  const [sourceIndex, setSourceIndex] = useState(0);
   const [playMode, setPlayMode] = useState<PlayMode>("live");
   const [playbackSegments, setPlaybackSegments] = useState<mpegts.MediaSegment[]>([]);
   const [error, setError] = useState<string | null>(null);
+  // Transient message shown over the player (e.g. why a seek was adjusted)
+  const [notice, setNotice] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isRevealing, setIsRevealing] = useState(false);
   const [showSidebar, setShowSidebar] = useState(() => getSidebarVisible());
-  const [sidebarView, setSidebarView] = useState<"channels" | "epg">("channels");
+  const [sidebarView, setSidebarView] = useState<"channels" | "epg" | "history">("channels");
+  // Multi-channel timeline guide, shown over the page
+  const [showGuideGrid, setShowGuideGrid] = useState(false);
+  // Up to four channels playing side by side in place of the main player; null when off
+  const [multiView, setMultiView] = useState<{
+    layout: MultiViewLayout;
+    tiles: (Channel | null)[];
+    focusedIndex: number;
+  } | null>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [isMobile, setIsMobile] = useState(() => window.innerWidth < 768);
   const [catchupTailOffset, setCatchupTailOffset] = useState(() => getCatchupTailOffset());
   const [force16x9, setForce16x9] = useState(() => getForce16x9());
-  // 新增：自定义M3U地址相关状态
-  const [customM3uUrl, setCustomM3uUrl] = useState(() => getCustomM3uUrl() || "");
-  const [tempM3uUrl, setTempM3uUrl] = useState(customM3uUrl);
-  const [showM3uUrlInput, setShowM3uUrlInput] = useState(false);
+  const [liveTargetLatency, setLiveTargetLatency] = useState(() => getLiveTargetLatency());
+  const [timeshiftWindow, setTimeshiftWindow] = useState(() => getTimeshiftWindow());
+  // Playlists merged into the lineup, in priority order
+  const [playlistSources, setPlaylistSources] = useState<PlaylistSource[]>(() => getPlaylistSources());
+  const [showSourceManager, setShowSourceManager] = useState(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  // Time the shown lineup was cached, when the playlist could not be loaded
+  const [staleSince, setStaleSince] = useState<Date | null>(null);
   const pageContainerRef = useRef<HTMLDivElement>(null);
 
   // Track stream start time - the absolute time position when current stream started
@@ -89,6 +130,15 @@ function PlayerPage() {
   // Track current video playback time in seconds (relative to stream start)
   const [currentVideoTime, setCurrentVideoTime] = useState(0);
 
+  const { history: watchHistory, record: recordWatchHistory, clear: clearWatchHistory } = useWatchHistory();
+  // Time of the last history update; progress is recorded every 15 seconds
+  const lastHistoryRecordRef = useRef(0);
+  // Channel, mode and start of the stream being played, set together when playback (re)starts,
+  // so history never pairs a new channel with the previous stream's mode or start time
+  const [playbackSession, setPlaybackSession] = useState<{ channel: Channel; mode: PlayMode; startTime: Date } | null>(
+    null,
+  );
+
   // Track fullscreen state
   useEffect(() => {
     const handleFullscreenChange = () => {
@@ -113,30 +163,46 @@ function PlayerPage() {
     };
   }, []);
 
+  const playingChannel = useMemo(
+    () => (currentChannel ? getChannelWithSource(currentChannel, sourceIndex) : null),
+    [currentChannel, sourceIndex],
+  );
+
+  // The stream is keyed on the URL, so a refresh that only renames the channel or changes its
+  // catchup source does not restart playback; the latest channel is read through the ref
+  const playingChannelRef = useRef(playingChannel);
+  playingChannelRef.current = playingChannel;
+  const playingUrl = playingChannel?.url;
+
   useEffect(() => {
-    if (!currentChannel) return;
+    const playingChannel = playingChannelRef.current;
+    if (!playingChannel) return;
 
     const now = new Date();
 
     if (streamStartTime.getTime() > now.getTime() - 3000) {
       setPlaybackSegments([
         {
-          url: currentChannel.url,
+          url: playingChannel.url,
           duration: 0,
         },
       ]);
       setPlayMode("live");
+      setCurrentVideoTime(0);
+      setPlaybackSession({ channel: playingChannel, mode: "live", startTime: streamStartTime });
       return;
     }
 
     // Check if channel supports catchup
-    if (!currentChannel.catchup || !currentChannel.catchupSource) {
+    if (!supportsCatchup(playingChannel)) {
       return;
     }
 
-    setPlaybackSegments(buildCatchupSegments(currentChannel, streamStartTime, catchupTailOffset));
+    setPlaybackSegments(buildCatchupSegments(playingChannel, streamStartTime, catchupTailOffset));
     setPlayMode("catchup");
-  }, [currentChannel, streamStartTime, catchupTailOffset]);
+    setCurrentVideoTime(0);
+    setPlaybackSession({ channel: playingChannel, mode: "catchup", startTime: streamStartTime });
+  }, [playingUrl, streamStartTime, catchupTailOffset]);
 
   const handleVideoSeek = useCallback(
     (seekTime: Date) => {
@@ -147,15 +213,30 @@ function PlayerPage() {
         } else {
           setStreamStartTime(new Date(now.getTime() - 30 * 1000));
         }
+      } else if (currentChannel) {
+        // Never request catchup older than the channel's archive keeps
+        const { time, clamped } = clampToCatchupWindow(currentChannel, seekTime, now);
+        if (clamped) {
+          setNotice(t("catchupWindowClamped").replace("{days}", String(currentChannel.catchupDays)));
+        }
+        setStreamStartTime(time);
       } else {
         setStreamStartTime(seekTime);
       }
     },
-    [streamStartTime],
+    [streamStartTime, currentChannel, t],
   );
 
+  // Auto-dismiss notices
+  useEffect(() => {
+    if (!notice) return;
+    const timer = window.setTimeout(() => setNotice(null), 5000);
+    return () => window.clearTimeout(timer);
+  }, [notice]);
+
   const selectChannel = useCallback((channel: Channel) => {
     setCurrentChannel(channel);
+    setSourceIndex(0);
     setStreamStartTime(new Date());
   }, []);
 
@@ -184,7 +265,7 @@ function PlayerPage() {
         }
         selectChannel(metadata.channels[nextIndex]);
       } else {
-        const channel = metadata.channels[target - 1];
+        const channel = findChannelByNumber(metadata.channels, target);
         if (channel) {
           selectChannel(channel);
         }
@@ -193,62 +274,81 @@ function PlayerPage() {
     [metadata, currentChannel, selectChannel],
   );
 
-  // 改造：支持自定义M3U URL加载
-  const loadPlaylist = useCallback(async (customUrl?: string) => {
+  // Keys of the channel shown now and the one before it, for the Back key.
+  // Keys rather than objects, so a refreshed lineup does not count as a channel change.
+  const channelKeysRef = useRef<{ current: string | null; previous: string | null }>({ current: null, previous: null });
+  // Bumped to show the programme info banner: on every tune and on the Info key
+  const [infoBannerToken, setInfoBannerToken] = useState(0);
+  useEffect(() => {
+    if (!currentChannel) return;
+    const key = getChannelKey(currentChannel);
+    if (key !== channelKeysRef.current.current) {
+      channelKeysRef.current = { current: key, previous: channelKeysRef.current.current };
+      setInfoBannerToken((token) => token + 1);
+    }
+  }, [currentChannel]);
+
+  // Load each source's EPG (plain or gzip, parsed in a worker), filtered to that source's channels
+  const loadGuides = useCallback(async (playlist: MergedPlaylist, sourcesKey: string, retry?: RetryOptions) => {
+    if (playlist.epgSources.length === 0) {
+      // No EPG URL provided, generate fallback programs for catchup-capable channels
+      setEpgData(fillEPGGaps({}, playlist.channels));
+      return;
+    }
+
+    setEpgProgress({ loadedBytes: 0, programmes: 0 });
+    try {
+      let epg = await loadEPGSources(playlist.epgSources, { onProgress: setEpgProgress, retry });
+      if (Object.keys(epg).length > 0) {
+        saveEPGCache(sourcesKey, epg);
+      } else {
+        // Every guide failed (or matched nothing): fall back to the last good copy
+        const cached = await getEPGCache(sourcesKey);
+        if (cached) {
+          console.warn(`Using EPG cached at ${new Date(cached.savedAt).toISOString()}`);
+          epg = cached.data;
+        }
+      }
+      // Fill gaps in EPG data with 2-hour fallback programs for catchup-capable channels
+      setEpgData(fillEPGGaps(epg, playlist.channels));
+    } finally {
+      setEpgProgress(null);
+    }
+  }, []);
+
+  const loadPlaylist = useCallback(async () => {
     try {
       setIsLoading(true);
       setError(null);
-      
-      // 确定最终使用的M3U地址：优先使用传入的自定义地址 > 保存的自定义地址 > 默认地址
-      const m3uUrl = customUrl || (customM3uUrl || "/playlist.m3u");
-      
-      const response = await fetch(m3uUrl, {
-        mode: m3uUrl.startsWith("http") ? "cors" : "same-origin",
-        headers: {
-          "Cache-Control": "no-cache",
-        },
+
+      const sourcesKey = getPlaylistSourcesKey(playlistSources);
+      let parsed: MergedPlaylist;
+      try {
+        parsed = await loadPlaylistSources(playlistSources);
+        savePlaylistCache(sourcesKey, parsed);
+        setStaleSince(null);
+      } catch (err) {
+        // Start from the last good lineup instead of failing when the playlist is unreachable
+        const cached = await getPlaylistCache(sourcesKey);
+        if (!cached) throw err;
+        console.warn("Failed to load playlist, using cached copy:", err);
+        parsed = cached.data;
+        setStaleSince(new Date(cached.savedAt));
+      }
+      parsed.failedSources.forEach(({ source, error: sourceError }) => {
+        console.error(`Failed to load playlist source ${source.name}:`, sourceError);
+        setNotice(
+          t("playlistSourceFailed").replace("{name}", source.name).replace("{error}", sourceError.message),
+        );
       });
-      
-      if (!response.ok) {
-        throw new Error(`${t("failedToLoadPlaylist")} (${response.status} ${response.statusText})`);
+      if (parsed.warnings.length > 0) {
+        console.warn(
+          `Playlist has ${parsed.warnings.length} malformed entr${parsed.warnings.length === 1 ? "y" : "ies"}:\n` +
+            parsed.warnings.map((warning) => `  line ${warning.line}: ${warning.message}`).join("\n"),
+        );
       }
-
-      const content = await response.text();
-      const parsed = parseM3U(content);
       setMetadata(parsed);
-
-      // Load EPG if available
-      if (parsed.tvgUrl) {
-        // Build set of valid channel IDs from M3U for filtering
-        // Use tvgId, tvgName, and name for EPG matching (with fallback logic)
-        const validChannelIds = new Set<string>();
-        parsed.channels.forEach((channel) => {
-          if (channel.tvgId) validChannelIds.add(channel.tvgId);
-          if (channel.tvgName) validChannelIds.add(channel.tvgName);
-          validChannelIds.add(channel.name);
-        });
-
-        // Build EPG URL with token if available
-        const epgUrl = parsed.tvgUrl.replace(".gz", "");
-
-        // Load EPG and filter to only channels in M3U
-        loadEPG(epgUrl, validChannelIds)
-          .then((epg) => {
-            // Fill gaps in EPG data with 2-hour fallback programs for catchup-capable channels
-            const filledEpg = fillEPGGaps(epg, parsed.channels);
-            setEpgData(filledEpg);
-          })
-          .catch((err) => {
-            console.error("Failed to load EPG:", err);
-            // Even if EPG loading fails, generate fallback programs for catchup-capable channels
-            const fallbackEpg = fillEPGGaps({}, parsed.channels);
-            setEpgData(fallbackEpg);
-          });
-      } else {
-        // No EPG URL provided, generate fallback programs for catchup-capable channels
-        const fallbackEpg = fillEPGGaps({}, parsed.channels);
-        setEpgData(fallbackEpg);
-      }
+      loadGuides(parsed, sourcesKey).catch((err) => console.error("Failed to load EPG:", err));
 
       // Try to restore last played channel, otherwise select first channel
       if (parsed.channels.length > 0) {
@@ -271,40 +371,132 @@ function PlayerPage() {
         setIsLoading(false);
       }, 500); // Match zoom-fade-out animation duration
     } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : t("failedToLoadPlaylist");
+      const errorMsg = err instanceof Error ? `${t("failedToLoadPlaylist")}: ${err.message}` : t("failedToLoadPlaylist");
       setError(errorMsg);
       setIsLoading(false);
     }
-  }, [t, selectChannel, customM3uUrl]);
-
-  // 新增：保存自定义M3U地址并加载
-  const handleSaveM3uUrl = useCallback(() => {
-    if (!tempM3uUrl.trim()) {
-      // 清空自定义地址，使用默认地址
-      clearCustomM3uUrl();
-      setCustomM3uUrl("");
-    } else {
-      saveCustomM3uUrl(tempM3uUrl.trim());
-      setCustomM3uUrl(tempM3uUrl.trim());
-    }
-    setShowM3uUrlInput(false);
-    // 重新加载播放列表
-    loadPlaylist(tempM3uUrl.trim() || undefined);
-  }, [tempM3uUrl, loadPlaylist]);
-
-  // 新增：重置为默认M3U地址
-  const handleResetM3uUrl = useCallback(() => {
-    clearCustomM3uUrl();
-    setCustomM3uUrl("");
-    setTempM3uUrl("");
-    loadPlaylist();
-  }, [loadPlaylist]);
+  }, [t, selectChannel, playlistSources, loadGuides]);
+
+  const usesCustomSources = playlistSources.some(
+    (source) => source.id !== DEFAULT_PLAYLIST_SOURCE_ID || source.url !== DEFAULT_PLAYLIST_URL,
+  );
+
+  const handleApplySources = useCallback((sources: PlaylistSource[]) => {
+    savePlaylistSources(sources);
+    pruneUnusedLocalFiles(sources).catch((err) => console.error("Failed to delete unused imported files:", err));
+    // The new list changes loadPlaylist, which reloads through the effect below
+    setPlaylistSources(sources);
+    setShowSourceManager(false);
+  }, []);
+
+  // Import playlists and guides dropped anywhere on the page
+  const handleDragOver = useCallback((event: DragEvent) => {
+    if (!event.dataTransfer.types.includes("Files")) return;
+    event.preventDefault();
+    setIsDraggingFiles(true);
+  }, []);
+
+  const handleDragLeave = useCallback((event: DragEvent) => {
+    // Ignore leaving into a child element
+    if (event.currentTarget.contains(event.relatedTarget as Node | null)) return;
+    setIsDraggingFiles(false);
+  }, []);
+
+  const handleDrop = useCallback(
+    async (event: DragEvent) => {
+      event.preventDefault();
+      setIsDraggingFiles(false);
+      const files = Array.from(event.dataTransfer.files).filter((file) => isPlaylistFile(file) || isGuideFile(file));
+      if (files.length === 0) {
+        setNotice(t("noImportableFiles"));
+        return;
+      }
+      try {
+        handleApplySources(await importLocalFiles(files, playlistSources, currentChannel?.playlistSourceId));
+        setNotice(t("filesImported").replace("{count}", String(files.length)));
+      } catch (err) {
+        console.error("Failed to import files:", err);
+        setNotice(err instanceof Error ? err.message : String(err));
+      }
+    },
+    [t, playlistSources, currentChannel, handleApplySources],
+  );
+
+  const dropProps = { onDragOver: handleDragOver, onDragLeave: handleDragLeave, onDrop: handleDrop };
+
+  const dropOverlay = isDraggingFiles && (
+    <div className="pointer-events-none fixed inset-4 z-50 flex items-center justify-center rounded-lg border-2 border-dashed border-primary bg-background/80 text-sm font-medium">
+      {t("dropFilesHere")}
+    </div>
+  );
 
   // Load playlist on mount
   useEffect(() => {
     loadPlaylist();
   }, [loadPlaylist]);
 
+  const metadataRef = useRef<MergedPlaylist | null>(null);
+  metadataRef.current = metadata;
+
+  // Refresh in the background: the playlist every 30 minutes and the guides every 6 hours.
+  // Requests are conditional, and channels that did not change keep their identity.
+  // The channel that is playing always takes its refreshed object, but playback is keyed on
+  // the stream URL, so it is only reloaded when that URL changes.
+  useEffect(() => {
+    const controller = new AbortController();
+    const sourcesKey = getPlaylistSourcesKey(playlistSources);
+    const retry: RetryOptions = {
+      retries: 5,
+      onRetry: (err, attempt, delay) => console.warn(`Refresh failed, retry ${attempt} in ${Math.round(delay / 1000)}s:`, err),
+    };
+
+    const refreshPlaylist = async () => {
+      const previous = metadataRef.current;
+      if (!previous) return;
+      try {
+        const parsed = await loadPlaylistSources(playlistSources, { retry, signal: controller.signal });
+        const diff = diffChannels(previous.channels, parsed.channels);
+        const next = { ...parsed, channels: diff.channels };
+        savePlaylistCache(sourcesKey, next);
+        setStaleSince(null);
+        if (!hasChannelChanges(diff, previous.channels)) return;
+
+        setMetadata(next);
+        setCurrentChannel((current) => {
+          const refreshed = current && diff.changed.find((channel) => channel.id === current.id);
+          return refreshed ?? current;
+        });
+        if (diff.added.length > 0 || diff.changed.length > 0) {
+          loadGuides(next, sourcesKey);
+        }
+        if (getRefreshNotifications()) {
+          setNotice(
+            t("playlistUpdated")
+              .replace("{added}", String(diff.added.length))
+              .replace("{removed}", String(diff.removed.length))
+              .replace("{changed}", String(diff.changed.length)),
+          );
+        }
+      } catch (err) {
+        if (!controller.signal.aborted) console.error("Failed to refresh playlist:", err);
+      }
+    };
+
+    const refreshGuides = () => {
+      if (metadataRef.current) {
+        loadGuides(metadataRef.current, sourcesKey, retry).catch((err) => console.error("Failed to refresh EPG:", err));
+      }
+    };
+
+    const playlistTimer = window.setInterval(refreshPlaylist, 30 * 60 * 1000);
+    const guideTimer = window.setInterval(refreshGuides, 6 * 60 * 60 * 1000);
+    return () => {
+      controller.abort();
+      window.clearInterval(playlistTimer);
+      window.clearInterval(guideTimer);
+    };
+  }, [playlistSources, loadGuides, t]);
+
   // Get current program for the video player
   // Use tvgId / tvgName / name with fallback logic for EPG matching
   // Use streamStartTime + currentVideoTime to determine the actual time position
@@ -320,9 +512,160 @@ function PlayerPage() {
     return getCurrentProgram(epgChannelId, epgData, absoluteTime);
   }, [currentChannel, epgData, streamStartTime, currentVideoTime]);
 
-  const handleVideoError = useCallback((err: string) => {
-    setError(err);
-  }, []);
+  // Record a new stream immediately rather than up to an interval later
+  useEffect(() => {
+    lastHistoryRecordRef.current = 0;
+  }, [playbackSession]);
+
+  // Record what is being watched, including the catchup position to resume from
+  useEffect(() => {
+    if (!playbackSession) return;
+    const now = Date.now();
+    if (now - lastHistoryRecordRef.current < 15 * 1000) return;
+    lastHistoryRecordRef.current = now;
+    const { channel, mode, startTime } = playbackSession;
+    const position = new Date(startTime.getTime() + currentVideoTime * 1000);
+    recordWatchHistory(createWatchHistoryEntry(channel, mode, currentVideoProgram, position, locale));
+  }, [playbackSession, currentVideoProgram, currentVideoTime, locale, recordWatchHistory]);
+
+  // Switch channel and play it live (time null) or from a catchup position
+  const playChannelAt = useCallback(
+    (channel: Channel, time: Date | null) => {
+      setCurrentChannel(channel);
+      setSourceIndex(0);
+      if (time && supportsCatchup(channel)) {
+        // The archive may no longer reach the requested position
+        const { time: startTime, clamped } = clampToCatchupWindow(channel, time);
+        if (clamped) {
+          setNotice(t("catchupWindowClamped").replace("{days}", String(channel.catchupDays)));
+        }
+        setStreamStartTime(startTime);
+      } else {
+        setStreamStartTime(new Date());
+      }
+    },
+    [t],
+  );
+
+  const handleHistorySelect = useCallback(
+    (entry: WatchHistoryEntry, channel: Channel) => {
+      playChannelAt(channel, entry.mode === "catchup" && entry.position !== undefined ? new Date(entry.position) : null);
+    },
+    [playChannelAt],
+  );
+
+  const handleGridProgramSelect = useCallback(
+    (channel: Channel, programStart: Date) => {
+      setShowGuideGrid(false);
+      // On-air programmes are selected as (now, now), like in EPGView
+      playChannelAt(channel, programStart.getTime() > Date.now() - 30 * 1000 ? null : programStart);
+    },
+    [playChannelAt],
+  );
+
+  // Reminders survive reloads and follow programmes that move when the guide refreshes
+  const handleReminderTune = useCallback(
+    (reminder: ProgramReminder) => {
+      const channel = metadata?.channels.find((ch) => getChannelKey(ch) === reminder.channelKey);
+      if (channel) {
+        selectChannel(channel);
+      } else {
+        setNotice(t("channelUnavailable"));
+      }
+    },
+    [metadata, selectChannel, t],
+  );
+  const { activeReminders, isReminderSet, toggleReminder, dismissReminder } = useReminders(
+    metadata?.channels,
+    epgData,
+    locale,
+    handleReminderTune,
+  );
+
+  const handleReminderToggle = useCallback(
+    (program: EPGProgram) => {
+      if (!currentChannel) return;
+      if (!isReminderSet(currentChannel, program)) {
+        setNotice(t("reminderSet").replace("{title}", getProgramTitle(program, locale) || t("excellentProgram")));
+      }
+      toggleReminder(currentChannel, program);
+    },
+    [currentChannel, isReminderSet, toggleReminder, locale, t],
+  );
+  const isCurrentReminderSet = useCallback(
+    (program: EPGProgram) => !!currentChannel && isReminderSet(currentChannel, program),
+    [currentChannel, isReminderSet],
+  );
+
+  // Recordings capture the stream's TS bytes over a second connection and are downloaded when they stop
+  const handleRecordingFinished = useCallback(
+    (result: RecordingResult) => {
+      if (result.bytes === 0) {
+        setNotice(t("recordingFailed").replace("{name}", result.fileName));
+        return;
+      }
+      downloadRecording(result);
+      const message =
+        result.reason === "sizeLimit"
+          ? "recordingSizeLimit"
+          : result.reason === "error"
+            ? "recordingFailed"
+            : "recordingSaved";
+      setNotice(t(message).replace("{name}", result.fileName));
+    },
+    [t],
+  );
+  const {
+    recordings,
+    start: startRecording,
+    stop: stopRecording,
+    isRecordingScheduled,
+    toggleScheduledRecording,
+  } = useRecorder(metadata?.channels, locale, handleRecordingFinished);
+  const isCurrentRecordingScheduled = useCallback(
+    (program: EPGProgram) => !!currentChannel && isRecordingScheduled(currentChannel, program),
+    [currentChannel, isRecordingScheduled],
+  );
+  const handleRecordToggle = useCallback(
+    (program: EPGProgram) => {
+      if (currentChannel) toggleScheduledRecording(currentChannel, program);
+    },
+    [currentChannel, toggleScheduledRecording],
+  );
+
+  const handleRecordCurrent = useCallback(() => {
+    if (!playingChannel) return;
+    // Catchup records from the playing position through the loaded segments
+    const urls = playMode === "catchup" ? playbackSegments.map((segment) => segment.url) : [playingChannel.url];
+    startRecording(playingChannel.name, urls, {
+      programTitle: (currentVideoProgram && getProgramTitle(currentVideoProgram, locale)) || undefined,
+    });
+  }, [playingChannel, playMode, playbackSegments, currentVideoProgram, locale, startRecording]);
+
+  // Guide of the playing channel, for the info banner
+  const currentChannelPrograms = useMemo(() => {
+    if (!currentChannel) return [];
+    const epgChannelId = getEPGChannelId(currentChannel, epgData);
+    return (epgChannelId && epgData[epgChannelId]) || [];
+  }, [currentChannel, epgData]);
+
+  const handleVideoError = useCallback(
+    (err: string) => {
+      // Fail over to the next source of the channel before giving up
+      if (currentChannel && sourceIndex + 1 < currentChannel.sources.length) {
+        console.warn(`Source ${sourceIndex + 1} of ${currentChannel.name} failed:`, err);
+        setSourceIndex(sourceIndex + 1);
+        setNotice(
+          t("switchedSource")
+            .replace("{index}", String(sourceIndex + 2))
+            .replace("{total}", String(currentChannel.sources.length)),
+        );
+        return;
+      }
+      setError(err);
+    },
+    [currentChannel, sourceIndex, t],
+  );
 
   // Handle fullscreen toggle
   const handleFullscreenToggle = useCallback(() => {
@@ -347,6 +690,16 @@ function PlayerPage() {
     saveForce16x9(enabled);
   }, []);
 
+  const handleLiveTargetLatencyChange = useCallback((latency: number) => {
+    setLiveTargetLatency(latency);
+    saveLiveTargetLatency(latency);
+  }, []);
+
+  const handleTimeshiftWindowChange = useCallback((minutes: number) => {
+    setTimeshiftWindow(minutes);
+    saveTimeshiftWindow(minutes);
+  }, []);
+
   const handleToggleSidebar = useCallback(() => {
     setShowSidebar((prev) => {
       const newState = !prev;
@@ -355,22 +708,91 @@ function PlayerPage() {
     });
   }, []);
 
-  // 改造：在设置区域添加M3U地址编辑按钮
+  const getVideoElement = useCallback(() => pageContainerRef.current?.querySelector("video") ?? null, []);
+
+  const { pendingNumber } = useRemoteControl(
+    {
+      onChannelNumber: (number) => {
+        if (metadata && findChannelByNumber(metadata.channels, number)) {
+          handleChannelNavigate(number);
+        } else {
+          setNotice(t("channelNumberNotFound").replace("{number}", String(number)));
+        }
+      },
+      onChannelStep: handleChannelNavigate,
+      onSeek: (direction) => {
+        if (playMode !== "catchup") return;
+        const position = streamStartTime.getTime() + currentVideoTime * 1000;
+        handleVideoSeek(new Date(position + (direction === "forward" ? 30 : -30) * 1000));
+      },
+      onTogglePlay: () => {
+        const video = getVideoElement();
+        if (!video) return;
+        if (video.paused) {
+          video.play().catch((err) => console.error("Failed to resume playback:", err));
+        } else {
+          video.pause();
+        }
+      },
+      onToggleMute: () => {
+        const video = getVideoElement();
+        if (video) video.muted = !video.muted;
+      },
+      onToggleFullscreen: handleFullscreenToggle,
+      onBack: () => {
+        const previousKey = channelKeysRef.current.previous;
+        const channel = previousKey && metadata?.channels.find((ch) => getChannelKey(ch) === previousKey);
+        if (channel) selectChannel(channel);
+      },
+      onOpenGuide: () => {
+        epgViewNextScrollBehaviorRef.current = "instant";
+        setSidebarView("epg");
+        setShowSidebar(true);
+        saveSidebarVisible(true);
+      },
+      onShowInfo: () => setInfoBannerToken((token) => token + 1),
+    },
+    !!metadata && !showGuideGrid && !multiView,
+  );
+
+  const assignMultiViewTile = useCallback((index: number, channel: Channel | null) => {
+    setMultiView((prev) =>
+      prev && { ...prev, tiles: prev.tiles.map((tile, i) => (i === index ? channel : tile)), focusedIndex: index },
+    );
+  }, []);
+
+  // In multi-view, the channel list fills the focused tile instead of changing the main channel
+  const handleChannelListSelect = useCallback(
+    (channel: Channel) => {
+      if (multiView) {
+        assignMultiViewTile(multiView.focusedIndex, channel);
+      } else {
+        selectChannel(channel);
+      }
+    },
+    [multiView, assignMultiViewTile, selectChannel],
+  );
+
+  const handleMultiViewPromote = useCallback(
+    (index: number) => {
+      const channel = multiView?.tiles[index];
+      setMultiView(null);
+      if (channel) selectChannel(channel);
+    },
+    [multiView, selectChannel],
+  );
+
   const settingsSlot = useMemo(() => {
     return (
-      <div className="flex items-center gap-2">
-        {/* 新增：M3U地址编辑按钮 */}
+      <div className="relative flex items-center gap-2">
         <button
-          onClick={() => {
-            setTempM3uUrl(customM3uUrl);
-            setShowM3uUrlInput(true);
-          }}
+          onClick={() => setShowSourceManager((prev) => !prev)}
           className="flex items-center gap-1 rounded p-1 text-xs hover:bg-muted transition-colors"
-          title={t("editM3UUrl") || "Edit M3U URL"}
+          title={t("playlistSources")}
         >
-          <Edit className="h-4 w-4 text-muted-foreground" />
+          <ListVideo className="h-4 w-4 text-muted-foreground" />
         </button>
-        
+
         <SettingsDropdown
           locale={locale}
           onLocaleChange={setLocale}
@@ -380,44 +802,19 @@ function PlayerPage() {
           onCatchupTailOffsetChange={handleCatchupTailOffsetChange}
           force16x9={force16x9}
           onForce16x9Change={handleForce16x9Change}
+          liveTargetLatency={liveTargetLatency}
+          onLiveTargetLatencyChange={handleLiveTargetLatencyChange}
+          timeshiftWindow={timeshiftWindow}
+          onTimeshiftWindowChange={handleTimeshiftWindowChange}
         />
-        
-        {/* 新增：M3U地址输入弹窗 */}
-        {showM3uUrlInput && (
-          <div className="absolute right-0 top-full mt-2 w-80 rounded-md border border-border bg-card p-3 shadow-lg z-50">
-            <div className="flex items-center justify-between mb-2">
-              <h4 className="text-sm font-medium">{t("editM3UUrl") || "Custom M3U URL"}</h4>
-              <button
-                onClick={() => setShowM3uUrlInput(false)}
-                className="rounded p-0.5 hover:bg-muted transition-colors"
-              >
-                <X className="h-4 w-4 text-muted-foreground" />
-              </button>
-            </div>
-            <div className="space-y-2">
-              <input
-                type="url"
-                value={tempM3uUrl}
-                onChange={(e) => setTempM3uUrl(e.target.value)}
-                placeholder="https://example.com/playlist.m3u or /playlist.m3u"
-                className="w-full rounded border border-border bg-background px-2 py-1.5 text-sm focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
-              />
-              <div className="flex items-center justify-between gap-2">
-                <button
-                  onClick={handleResetM3uUrl}
-                  className="flex-1 rounded bg-muted px-2 py-1.5 text-xs text-muted-foreground hover:bg-muted/80"
-                >
-                  {t("resetToDefault") || "Reset to Default"}
-                </button>
-                <button
-                  onClick={handleSaveM3uUrl}
-                  className="flex-1 rounded bg-primary px-2 py-1.5 text-xs text-primary-foreground hover:bg-primary/90"
-                >
-                  {t("save") || "Save & Load"}
-                </button>
-              </div>
-            </div>
-          </div>
+
+        {showSourceManager && (
+          <PlaylistSourceManager
+            sources={playlistSources}
+            onApply={handleApplySources}
+            onClose={() => setShowSourceManager(false)}
+            locale={locale}
+          />
         )}
       </div>
     );
@@ -430,39 +827,156 @@ function PlayerPage() {
     setTheme,
     handleCatchupTailOffsetChange,
     handleForce16x9Change,
-    customM3uUrl,
-    tempM3uUrl,
-    showM3uUrlInput,
-    handleSaveM3uUrl,
-    handleResetM3uUrl,
+    liveTargetLatency,
+    handleLiveTargetLatencyChange,
+    timeshiftWindow,
+    handleTimeshiftWindowChange,
+    playlistSources,
+    showSourceManager,
+    handleApplySources,
     t,
   ]);
 
   // Main UI content
   const mainContent = (
-    <div ref={pageContainerRef} className="flex h-dvh flex-col bg-background">
+    <div ref={pageContainerRef} className="flex h-dvh flex-col bg-background" {...dropProps}>
       <title>{t("title")}</title>
+      {dropOverlay}
+
+      {/* Timeline guide */}
+      {showGuideGrid && (
+        <div
+          className="fixed inset-0 z-40 flex flex-col bg-background"
+          onKeyDown={(e) => {
+            if (e.key === "Escape") setShowGuideGrid(false);
+          }}
+        >
+          <div className="flex items-center justify-between border-b border-border px-4 py-2">
+            <span className="text-sm font-semibold">{t("guideGrid")}</span>
+            <button
+              onClick={() => setShowGuideGrid(false)}
+              title={t("close")}
+              className="rounded p-1 text-muted-foreground hover:bg-muted hover:text-foreground"
+              autoFocus
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          <div className="flex-1 overflow-hidden">
+            <EPGGrid
+              channels={metadata?.channels ?? []}
+              epgData={epgData}
+              currentChannel={currentChannel}
+              currentPlayingProgram={currentVideoProgram}
+              onProgramSelect={handleGridProgramSelect}
+              locale={locale}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Due programme reminders */}
+      <ReminderNotifications
+        reminders={activeReminders}
+        onTune={(reminder) => {
+          handleReminderTune(reminder);
+          dismissReminder(reminder.id);
+        }}
+        onDismiss={dismissReminder}
+        locale={locale}
+      />
+
+      {/* Channel number being typed */}
+      <ChannelNumberOverlay
+        number={pendingNumber}
+        channel={
+          pendingNumber && metadata
+            ? (findChannelByNumber(metadata.channels, Number(pendingNumber)) ?? undefined)
+            : undefined
+        }
+        locale={locale}
+      />
+
+      {/* Notice toast */}
+      {notice && (
+        <div
+          role="status"
+          className="fixed left-1/2 top-4 z-40 max-w-[90vw] -translate-x-1/2 rounded-md border border-border bg-card px-4 py-2 text-sm shadow-lg"
+        >
+          {notice}
+        </div>
+      )}
+
+      {/* Offline banner */}
+      {staleSince && (
+        <div className="flex items-center justify-center gap-2 border-b border-border bg-muted px-3 py-1.5 text-xs text-muted-foreground">
+          <WifiOff className="h-3.5 w-3.5 shrink-0" />
+          <span>{t("staleData").replace("{time}", staleSince.toLocaleString(locale))}</span>
+          <button onClick={loadPlaylist} className="text-primary hover:underline">
+            {t("retryNow")}
+          </button>
+        </div>
+      )}
 
       {/* Main Content */}
       <div className="flex flex-col md:flex-row flex-1 overflow-hidden">
         {/* Video Player - Mobile: fixed aspect ratio at top, Desktop: fills left side */}
-        <div className="w-full sticky md:static md:flex-1 shrink-0">
-          <VideoPlayer
-            channel={currentChannel}
-            segments={playbackSegments}
-            liveSync={playMode === "live"}
-            onError={handleVideoError}
+        <div className="w-full sticky md:relative md:flex-1 shrink-0">
+          {multiView ? (
+            <div className="aspect-video w-full md:aspect-auto md:h-full">
+              <MultiView
+                layout={multiView.layout}
+                tiles={multiView.tiles}
+                focusedIndex={multiView.focusedIndex}
+                channels={metadata?.channels ?? []}
+                onLayoutChange={(layout) => setMultiView((prev) => prev && { ...prev, layout })}
+                onFocus={(index) => setMultiView((prev) => prev && { ...prev, focusedIndex: index })}
+                onPromote={handleMultiViewPromote}
+                onAssign={assignMultiViewTile}
+                onExit={() => setMultiView(null)}
+                locale={locale}
+              />
+            </div>
+          ) : (
+            <>
+              <VideoPlayer
+                channel={currentChannel}
+                segments={playbackSegments}
+                liveSync={playMode === "live"}
+                liveTargetLatency={liveTargetLatency}
+                timeshiftWindow={timeshiftWindow}
+                onError={handleVideoError}
+                locale={locale}
+                currentProgram={currentVideoProgram}
+                onSeek={handleVideoSeek}
+                streamStartTime={streamStartTime}
+                currentVideoTime={currentVideoTime}
+                onCurrentVideoTimeChange={setCurrentVideoTime}
+                onChannelNavigate={handleChannelNavigate}
+                showSidebar={showSidebar}
+                onToggleSidebar={handleToggleSidebar}
+                onFullscreenToggle={handleFullscreenToggle}
+                force16x9={force16x9}
+              />
+              {currentChannel && (
+                <ProgramInfoBanner
+                  channel={currentChannel}
+                  channelNumber={metadata ? getChannelNumber(metadata.channels, currentChannel) : undefined}
+                  programs={currentChannelPrograms}
+                  position={new Date(streamStartTime.getTime() + currentVideoTime * 1000)}
+                  playMode={playMode}
+                  showToken={infoBannerToken}
+                  locale={locale}
+                />
+              )}
+            </>
+          )}
+          <RecordingControls
+            recordings={recordings}
+            canRecord={!!playingChannel && !multiView}
+            onRecord={handleRecordCurrent}
+            onStop={stopRecording}
             locale={locale}
-            currentProgram={currentVideoProgram}
-            onSeek={handleVideoSeek}
-            streamStartTime={streamStartTime}
-            currentVideoTime={currentVideoTime}
-            onCurrentVideoTimeChange={setCurrentVideoTime}
-            onChannelNavigate={handleChannelNavigate}
-            showSidebar={showSidebar}
-            onToggleSidebar={handleToggleSidebar}
-            onFullscreenToggle={handleFullscreenToggle}
-            force16x9={force16x9}
           />
         </div>
 
@@ -488,8 +1002,8 @@ function PlayerPage() {
               )}
             >
               {t("channels")} ({metadata?.channels.length || 0})
-              {/* 新增：显示当前使用的M3U地址标识 */}
-              {customM3uUrl && (
+              {/* Lineup merged from sources other than the built-in playlist */}
+              {usesCustomSources && (
                 <ExternalLink className="inline ml-1 h-3 w-3 text-muted-foreground" />
               )}
             </button>
@@ -506,6 +1020,43 @@ function PlayerPage() {
               )}
             >
               {t("programGuide")}
+              {epgProgress && (
+                <span className="ml-1 text-xs font-normal text-muted-foreground tabular-nums">
+                  {epgProgress.totalBytes
+                    ? `${Math.min(99, Math.floor((epgProgress.loadedBytes / epgProgress.totalBytes) * 100))}%`
+                    : `${(epgProgress.loadedBytes / 1024 / 1024).toFixed(1)} MB`}
+                </span>
+              )}
+            </button>
+            <button
+              onClick={() => setSidebarView("history")}
+              className={cn(
+                "flex-1 px-3 md:px-4 py-2 md:py-3 text-xs md:text-sm font-medium",
+                sidebarView === "history"
+                  ? "border-b-2 border-primary text-primary"
+                  : "text-muted-foreground cursor-pointer hover:text-foreground",
+              )}
+            >
+              {t("recentlyWatched")}
+            </button>
+            <button
+              onClick={() =>
+                setMultiView((prev) => (prev ? null : { layout: "2x2", tiles: [currentChannel, null, null, null], focusedIndex: 0 }))
+              }
+              title={t("multiView")}
+              className={cn(
+                "px-3 py-2 md:py-3 cursor-pointer hover:text-foreground",
+                multiView ? "text-primary" : "text-muted-foreground",
+              )}
+            >
+              <Grid2x2 className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => setShowGuideGrid(true)}
+              title={t("guideGrid")}
+              className="px-3 py-2 md:py-3 text-muted-foreground cursor-pointer hover:text-foreground"
+            >
+              <LayoutGrid className="h-4 w-4" />
             </button>
           </div>
 
@@ -516,7 +1067,7 @@ function PlayerPage() {
                 channels={metadata?.channels}
                 groups={metadata?.groups}
                 currentChannel={currentChannel}
-                onChannelSelect={selectChannel}
+                onChannelSelect={handleChannelListSelect}
                 locale={locale}
                 settingsSlot={settingsSlot}
               />
@@ -527,8 +1078,22 @@ function PlayerPage() {
                 epgData={epgData}
                 onProgramSelect={handleVideoSeek}
                 locale={locale}
-                supportsCatchup={!!(currentChannel?.catchup && currentChannel?.catchupSource)}
+                supportsCatchup={!!currentChannel && supportsCatchup(currentChannel)}
+                catchupDays={currentChannel?.catchupDays}
                 currentPlayingProgram={currentVideoProgram}
+                isReminderSet={isCurrentReminderSet}
+                onReminderToggle={handleReminderToggle}
+                isRecordingScheduled={isCurrentRecordingScheduled}
+                onRecordToggle={handleRecordToggle}
+              />
+            </Activity>
+            <Activity mode={sidebarView === "history" ? "visible" : "hidden"}>
+              <WatchHistory
+                entries={watchHistory}
+                channels={metadata?.channels ?? []}
+                onSelect={handleHistorySelect}
+                onClear={clearWatchHistory}
+                locale={locale}
               />
             </Activity>
           </div>
@@ -539,44 +1104,35 @@ function PlayerPage() {
 
   if (error && !metadata) {
     return (
-      <div className="flex h-dvh items-center justify-center bg-background p-4">
+      <div className="flex h-dvh items-center justify-center bg-background p-4" {...dropProps}>
+        {dropOverlay}
         <Card className="w-full max-w-md p-6">
           <div className="mb-4 text-xl font-semibold text-destructive">{t("error")}</div>
           <div className="mb-4 text-sm">{error}</div>
           
-          {/* 新增：错误页面添加M3U地址输入 */}
-          <div className="mb-4 space-y-3">
-            <div className="flex items-center justify-between">
-              <h4 className="text-sm font-medium">{t("customM3UUrl") || "Custom M3U URL"}</h4>
-              <button
-                onClick={handleResetM3uUrl}
-                className="text-xs text-primary hover:underline"
-              >
-                {t("resetToDefault") || "Reset"}
-              </button>
-            </div>
-            <div className="flex gap-2">
-              <input
-                type="url"
-                value={tempM3uUrl}
-                onChange={(e) => setTempM3uUrl(e.target.value)}
-                placeholder="https://example.com/playlist.m3u"
-                className="flex-1 rounded border border-border bg-background px-3 py-2 text-sm focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+          <div className="relative mb-4">
+            <button
+              onClick={() => setShowSourceManager((prev) => !prev)}
+              className="flex w-full items-center justify-center gap-2 rounded bg-muted px-4 py-2 text-sm hover:bg-muted/80"
+            >
+              <ListVideo className="h-4 w-4" />
+              {t("playlistSources")}
+            </button>
+            {showSourceManager && (
+              <PlaylistSourceManager
+                sources={playlistSources}
+                onApply={handleApplySources}
+                onClose={() => setShowSourceManager(false)}
+                locale={locale}
               />
-              <button
-                onClick={handleSaveM3uUrl}
-                className="rounded bg-primary px-3 py-2 text-xs text-primary-foreground hover:bg-primary/90"
-              >
-                <RefreshCw className="h-4 w-4" />
-              </button>
-            </div>
+            )}
           </div>
-          
+
           <button
             onClick={loadPlaylist}
             className="w-full rounded bg-primary px-4 py-2 text-primary-foreground hover:bg-primary/90"
           >
-            {t("retry")}
+            {translate(locale, "retry")}
           </button>
         </Card>
       </div>
@@ -598,10 +1154,13 @@ function PlayerPage() {
           <div className="text-center space-y-4">
             {/* Loading spinner */}
             <div className="h-12 w-12 mx-auto rounded-full border-4 border-muted border-t-primary animate-spin" />
-            {/* 新增：显示当前加载的M3U地址 */}
-            {customM3uUrl && (
+            {usesCustomSources && (
               <p className="text-xs text-muted-foreground">
-                {t("loadingFrom") || "Loading from"}: {customM3uUrl}
+                {t("loadingFrom") || "Loading from"}:{" "}
+                {playlistSources
+                  .filter((source) => source.enabled)
+                  .map((source) => source.name)
+                  .join(", ")}
               </p>
             )}
           </div>
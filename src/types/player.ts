@@ -1,4 +1,15 @@
+/** One stream URL of a channel; channels listed several times with the same tvg-id get several */
+export interface ChannelSource {
+  url: string;
+  catchup?: string;
+  catchupSource?: string;
+  catchupDays?: number;
+  userAgent?: string;
+  referrer?: string;
+}
+
 export interface Channel {
+  /** Unique within the playlist and deterministic for the same playlist content */
   id: string;
   name: string;
   logo?: string;
@@ -8,23 +19,191 @@ export interface Channel {
   tvgName?: string;
   catchup?: string;
   catchupSource?: string;
+  /** Archive depth in days; undefined means the window is unknown */
+  catchupDays?: number;
+  /** Channel number from tvg-chno */
+  tvgChno?: number;
+  /** EPG time shift in hours from tvg-shift */
+  tvgShift?: number;
+  tvgLanguage?: string;
+  tvgCountry?: string;
+  /** From http-user-agent or #EXTVLCOPT:http-user-agent */
+  userAgent?: string;
+  /** From http-referrer or #EXTVLCOPT:http-referrer */
+  referrer?: string;
+  /** radio="true" entries are audio-only */
+  radio?: boolean;
+  /** #EXTINF duration in seconds (-1 for live streams) */
+  duration?: number;
+  /** Every #EXTINF attribute as written, including the ones mapped to typed fields */
+  attributes: Record<string, string>;
+  /** #EXTVLCOPT key=value directives */
+  vlcOptions?: Record<string, string>;
+  /** #KODIPROP key=value directives */
+  kodiProps?: Record<string, string>;
+  /** All stream URLs in failover order; the first one is the same as url */
+  sources: ChannelSource[];
+  /** Id of the PlaylistSource the channel was loaded from */
+  playlistSourceId?: string;
+}
+
+/** Text value with an optional XMLTV lang attribute */
+export interface LocalizedText {
+  value: string;
+  lang?: string;
+}
+
+export interface EPGEpisode {
+  /** 1-based season number (xmltv_ns stores it 0-based) */
+  season?: number;
+  /** 1-based episode number */
+  episode?: number;
+  /** 1-based part number */
+  part?: number;
+  totalEpisodes?: number;
+  /** Free-form episode label, e.g. from system="onscreen" */
+  display?: string;
+}
+
+export interface EPGRating {
+  system?: string;
+  value: string;
+  icon?: string;
+}
+
+export type EPGCreditRole =
+  | "director"
+  | "actor"
+  | "writer"
+  | "adapter"
+  | "producer"
+  | "composer"
+  | "editor"
+  | "presenter"
+  | "commentator"
+  | "guest";
+
+export interface EPGCredit {
+  role: EPGCreditRole;
+  name: string;
+  /** Character played, for actors */
+  character?: string;
 }
 
 export interface EPGProgram {
   id: string;
+  /** Default title, used when no localized title matches */
   title?: string;
   start: Date;
   end: Date;
+  titles?: LocalizedText[];
+  subTitles?: LocalizedText[];
+  descriptions?: LocalizedText[];
+  categories?: LocalizedText[];
+  episode?: EPGEpisode;
+  icon?: string;
+  ratings?: EPGRating[];
+  credits?: EPGCredit[];
+}
+
+export interface M3UParseWarning {
+  /** 1-based line number in the playlist */
+  line: number;
+  message: string;
 }
 
 export interface M3UMetadata {
   tvgUrl?: string;
+  /** Timezone applied to EPG timestamps without an offset ("+0800" or an IANA zone) */
+  epgTimezone?: string;
   channels: Channel[];
   groups: string[];
+  /** Every #EXTM3U header attribute as written */
+  attributes: Record<string, string>;
+  /** Problems found while parsing; affected entries are skipped or repaired */
+  warnings: M3UParseWarning[];
+}
+
+/** A playlist the user added; several enabled sources are merged into one lineup */
+export interface PlaylistSource {
+  id: string;
+  name: string;
+  /**
+   * "url" is fetched on every load, "text" keeps pasted playlist content,
+   * "file" is an imported file kept in IndexedDB under fileId
+   */
+  kind: "url" | "text" | "file";
+  url?: string;
+  content?: string;
+  fileId?: string;
+  /** Guide URL overriding the playlist's own x-tvg-url */
+  epgUrl?: string;
+  /** Imported guide file (IndexedDB id), used instead of any guide URL */
+  epgFileId?: string;
+  epgFileName?: string;
+  enabled: boolean;
+}
+
+/** Guide to load for the channels of one playlist source */
+export interface EPGSource {
+  /** Guide URL or imported guide file */
+  source: string | Blob;
+  /** URL or file name, for messages */
+  label: string;
+  timezone?: string;
+  channels: Channel[];
 }
 
 export type PlayMode = "live" | "catchup";
 
+/** One channel or catchup programme the user watched */
+export interface WatchHistoryEntry {
+  /** Stable channel key (see getChannelKey) */
+  channelKey: string;
+  channelName: string;
+  channelLogo?: string;
+  mode: PlayMode;
+  programTitle?: string;
+  /** Programme start/end in milliseconds since epoch */
+  programStart?: number;
+  programEnd?: number;
+  /** Catchup only: absolute time reached in the stream, in milliseconds since epoch */
+  position?: number;
+  /** Last time this entry was updated, in milliseconds since epoch */
+  watchedAt: number;
+}
+
+/** Reminder for an upcoming programme */
+export interface ProgramReminder {
+  /** Channel key and original start, see createReminder */
+  id: string;
+  /** Stable channel key (see getChannelKey) */
+  channelKey: string;
+  channelName: string;
+  programTitle?: string;
+  /** Programme start/end in milliseconds since epoch; updated when the guide moves the programme */
+  programStart: number;
+  programEnd: number;
+  /** Set once the user has been notified */
+  notified?: boolean;
+}
+
+/** Recording of an upcoming programme, started and stopped at its guide times */
+export interface ScheduledRecording {
+  /** Channel key and programme start */
+  id: string;
+  /** Stable channel key (see getChannelKey) */
+  channelKey: string;
+  channelName: string;
+  programTitle?: string;
+  /** Start/end in milliseconds since epoch */
+  start: number;
+  end: number;
+}
+
+/** Tile arrangement of the multi-view: four equal tiles, or one large tile above three small ones */
+export type MultiViewLayout = "2x2" | "1+3";
+
 export interface PlayerState {
   currentChannel: Channel | null;
   playMode: PlayMode;
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests cover plain modules under src/lib, so the app's React and Tailwind plugins are not loaded
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
+});